@@ -48,6 +48,8 @@ export default defineConfig({
             { text: 'Updating Records', link: '/guide/updating-records' },
             { text: 'Deleting Records', link: '/guide/deleting-records' },
             { text: 'Nested Mutations', link: '/guide/nested-mutations' },
+            { text: 'Lifecycle Hooks', link: '/guide/lifecycle-hooks' },
+            { text: 'Transactions', link: '/guide/transactions' },
           ],
         },
         {
@@ -1,9 +1,12 @@
 export * from './extensions'
 export * from './instance'
 export { globalCache } from './utils/cache'
-export { defineCollection, withDefaults, withId, withTimestamps, withUuid } from './utils/collections'
+export { defineCollection, withDefaults, withId, withSoftDelete, withTimestamps, withUuid, withVersion } from './utils/collections'
 export type { DataTypesMap } from './utils/data-types'
+export { OptimisticLockError } from './utils/errors'
 export * from './utils/filters'
 export * from './utils/migrations'
+export { defineOperator } from './utils/operators'
+export type { OperatorDefinition, OperatorsMap } from './utils/operators'
 export { defineSchema } from './utils/schema'
 export * from './utils/validation'
@@ -1,20 +1,27 @@
 import type { Knex } from 'knex'
 import type { FieldName } from '@/types/fields'
-import type { MutationOptions } from '@/types/orm'
-import type { FilterQuery, FindQueryParams, QueryResult, QueryResultItem } from '@/types/query'
-import type { Schema, TableItem, TableItemInput, TableNames, TablePrimaryKeyValue } from '@/types/schema'
+import type { CreateOptions, LifecycleHooks, MutationOptions, QueryOptions, TransactionOptions, UpsertOptions } from '@/types/orm'
+import type { AggregateDefinition, AggregateGroupByField, AggregateQueryParams, AggregateResult, FilterQuery, FindQueryParams, PaginateQueryParams, PaginateResult, QueryResult, QueryResultItem } from '@/types/query'
+import type { Schema, TableItem, TableItemInput, TableItemPatch, TableNames, TablePrimaryKeyValue } from '@/types/schema'
+import type { HookRegistry } from '@/utils/hooks'
 import type { MigrationResult, SchemaOperation } from '@/utils/migrations'
 import { knex } from 'knex'
 import { installDefaultExtensions } from '@/extensions'
+import { createHookRegistry } from '@/utils/hooks'
 import { planMigrations as _planMigrations, migrateSchema } from '@/utils/migrations'
+import { registerRegexpFunction, withRegexpFunction } from '@/utils/operators'
 import * as queries from '@/utils/queries'
+import { runInTransaction } from '@/utils/transactions'
 
 /**
  * Create a new instance of the ORM.
  */
 export function createInstance<S extends Schema>(schema: S, knexConfig: Knex.Config, defaultExtensions = true): Instance<S> {
-   const knexInstance = knex(knexConfig)
-   return createInstanceWithKnex(schema, knexInstance, defaultExtensions)
+   if (defaultExtensions) {
+      installDefaultExtensions()
+   }
+
+   return createBoundInstance(schema, knex(withRegexpFunction(knexConfig)), createHookRegistry())
 }
 
 /**
@@ -24,6 +31,22 @@ export function createInstanceWithKnex<S extends Schema>(schema: S, knexInstance
    if (defaultExtensions) {
       installDefaultExtensions()
    }
+   registerRegexpFunction(knexInstance)
+
+   return createBoundInstance(schema, knexInstance, createHookRegistry())
+}
+
+/**
+ * Create an instance running its queries with a Knex instance or transaction.
+ * Mutations of an instance bound to a transaction run in it, unless their options set another one.
+ */
+function createBoundInstance<S extends Schema>(schema: S, knexInstance: Knex, hooks: HookRegistry, trx?: Knex.Transaction): Instance<S> {
+   /**
+    * Get the options of a mutation, running in the bound transaction by default with the hooks of the instance
+    */
+   function mutationOptions<O extends MutationOptions>(options?: O) {
+      return { trx, ...options, hooks }
+   }
 
    /**
     * Find records in the specified table.
@@ -43,46 +66,118 @@ export function createInstanceWithKnex<S extends Schema>(schema: S, knexInstance
       return queries.findOne(knexInstance, schema, tableName, primaryKeyOrParams, params)
    }
 
+   /**
+    * Paginate records in the specified table using an opaque cursor.
+    */
+   function paginate<N extends TableNames<S>>(tableName: N, params: PaginateQueryParams<S, N>) {
+      return queries.paginate(knexInstance, schema, tableName, params)
+   }
+
+   /**
+    * Count records matching a filter in the specified table.
+    */
+   function count<N extends TableNames<S>>(tableName: N, filter?: FilterQuery<S, N>, options?: QueryOptions) {
+      return queries.count(knexInstance, schema, tableName, filter, options)
+   }
+
+   /**
+    * Check if any record matches a filter in the specified table.
+    */
+   function exists<N extends TableNames<S>>(tableName: N, filter?: FilterQuery<S, N>, options?: QueryOptions) {
+      return queries.exists(knexInstance, schema, tableName, filter, options)
+   }
+
+   /**
+    * Aggregate records in the specified table.
+    */
+   function aggregate<N extends TableNames<S>, G extends AggregateGroupByField<S, N>[] = [], A extends Record<string, AggregateDefinition<S, N>> = Record<string, AggregateDefinition<S, N>>>(tableName: N, params: AggregateQueryParams<S, N, G, A>) {
+      return queries.aggregate<S, N, G, A>(knexInstance, schema, tableName, params)
+   }
+
    /**
     * Create new records in the specified table.
     */
-   function create<N extends TableNames<S>>(tableName: N, records: TableItemInput<S, N>[], options?: MutationOptions) {
-      return queries.create(knexInstance, schema, tableName, records, options)
+   function create<N extends TableNames<S>>(tableName: N, records: TableItemInput<S, N>[], options?: CreateOptions) {
+      return queries.create(knexInstance, schema, tableName, records, mutationOptions(options))
    }
 
    /**
     * Create a single record in the specified table.
     */
    function createOne<N extends TableNames<S>>(tableName: N, record: TableItemInput<S, N>, options?: MutationOptions) {
-      return queries.createOne(knexInstance, schema, tableName, record, options)
+      return queries.createOne(knexInstance, schema, tableName, record, mutationOptions(options))
+   }
+
+   /**
+    * Insert records or update the existing ones matching their conflict columns.
+    */
+   function upsert<N extends TableNames<S>>(tableName: N, records: TableItemInput<S, N>[], options?: UpsertOptions<S, N>) {
+      return queries.upsert(knexInstance, schema, tableName, records, mutationOptions(options))
    }
 
    /**
     * Update records in the specified table.
     */
-   function update<N extends TableNames<S>>(tableName: N, filter: FilterQuery<S, N>, patch: TableItemInput<S, N>, options?: MutationOptions) {
-      return queries.update(knexInstance, schema, tableName, filter, patch, options)
+   function update<N extends TableNames<S>>(tableName: N, filter: FilterQuery<S, N>, patch: TableItemPatch<S, N>, options?: MutationOptions) {
+      return queries.update(knexInstance, schema, tableName, filter, patch, mutationOptions(options))
    }
 
    /**
     * Update a single record in the specified table.
     */
-   function updateOne<N extends TableNames<S>>(tableName: N, filter: FilterQuery<S, N>, patch: TableItemInput<S, N>, options?: MutationOptions) {
-      return queries.updateOne(knexInstance, schema, tableName, filter, patch, options)
+   function updateOne<N extends TableNames<S>>(tableName: N, filter: FilterQuery<S, N>, patch: TableItemPatch<S, N>, options?: MutationOptions) {
+      return queries.updateOne(knexInstance, schema, tableName, filter, patch, mutationOptions(options))
    }
 
    /**
     * Remove records from the specified table.
     */
    function remove<N extends TableNames<S>>(tableName: N, filter: FilterQuery<S, N>, options?: MutationOptions) {
-      return queries.remove(knexInstance, schema, tableName, filter, options)
+      return queries.remove(knexInstance, schema, tableName, filter, mutationOptions(options))
    }
 
    /**
     * Remove a single record from the specified table.
     */
    function removeOne<N extends TableNames<S>>(tableName: N, filter: FilterQuery<S, N>, options?: MutationOptions) {
-      return queries.removeOne(knexInstance, schema, tableName, filter, options)
+      return queries.removeOne(knexInstance, schema, tableName, filter, mutationOptions(options))
+   }
+
+   /**
+    * Permanently remove records from the specified table, including soft-deleted ones.
+    */
+   function forceRemove<N extends TableNames<S>>(tableName: N, filter: FilterQuery<S, N>, options?: MutationOptions) {
+      return queries.forceRemove(knexInstance, schema, tableName, filter, mutationOptions(options))
+   }
+
+   /**
+    * Restore soft-deleted records in the specified table.
+    */
+   function restore<N extends TableNames<S>>(tableName: N, filter: FilterQuery<S, N>, options?: MutationOptions) {
+      return queries.restore(knexInstance, schema, tableName, filter, mutationOptions(options))
+   }
+
+   /**
+    * Add record lifecycle hooks, for every table or a single one. Returns a function removing them.
+    */
+   function addHooks(hooks: LifecycleHooks<S>): () => void
+
+   function addHooks<N extends TableNames<S>>(tableName: N, hooks: LifecycleHooks<S, N>): () => void
+
+   function addHooks<N extends TableNames<S>>(tableNameOrHooks: N | LifecycleHooks<S>, tableHooks?: LifecycleHooks<S, N>) {
+      return typeof tableNameOrHooks === 'string'
+         ? hooks.add(tableNameOrHooks, tableHooks!)
+         : hooks.add(undefined, tableNameOrHooks)
+   }
+
+   /**
+    * Run queries in a transaction, committed when the work resolves and rolled back when it throws.
+    * Calling it on a transaction-bound instance runs the work in a savepoint.
+    */
+   function transaction<R>(work: (tx: Instance<S>) => Promise<R>, options?: TransactionOptions) {
+      return runInTransaction(knexInstance, options, (trx) => {
+         return work(createBoundInstance(schema, trx, hooks, trx))
+      })
    }
 
    /**
@@ -106,12 +201,21 @@ export function createInstanceWithKnex<S extends Schema>(schema: S, knexInstance
       knex: knexInstance,
       find,
       findOne,
+      paginate,
+      count,
+      exists,
+      aggregate,
       create,
       createOne,
+      upsert,
       update,
       updateOne,
       remove,
       removeOne,
+      forceRemove,
+      restore,
+      addHooks,
+      transaction,
       migrate,
       planMigrations,
    }
@@ -121,12 +225,24 @@ export interface Instance<S extends Schema> {
    knex: Knex
    find: <T extends TableNames<S>, C extends FieldName<S, T>[] = []>(tableName: T, params?: FindQueryParams<S, T, C>) => Promise<QueryResult<S, T, C>>
    findOne: <T extends TableNames<S>, C extends FieldName<S, T>[] = []>(tableName: T, primaryKeyOrParams: TablePrimaryKeyValue<S, T> | FindQueryParams<S, T, C>, params?: Omit<FindQueryParams<S, T, C>, 'where' | 'limit'>) => Promise<QueryResultItem<S, T, C>>
-   create: <T extends TableNames<S>>(tableName: T, records: TableItemInput<S, T>[], options?: MutationOptions) => Promise<TableItem<S, T>[]>
+   paginate: <T extends TableNames<S>>(tableName: T, params: PaginateQueryParams<S, T>) => Promise<PaginateResult<S, T>>
+   count: <T extends TableNames<S>>(tableName: T, filter?: FilterQuery<S, T>, options?: QueryOptions) => Promise<number>
+   exists: <T extends TableNames<S>>(tableName: T, filter?: FilterQuery<S, T>, options?: QueryOptions) => Promise<boolean>
+   aggregate: <T extends TableNames<S>, G extends AggregateGroupByField<S, T>[] = [], A extends Record<string, AggregateDefinition<S, T>> = Record<string, AggregateDefinition<S, T>>>(tableName: T, params: AggregateQueryParams<S, T, G, A>) => Promise<AggregateResult<S, T, G, A>>
+   create: <T extends TableNames<S>>(tableName: T, records: TableItemInput<S, T>[], options?: CreateOptions) => Promise<TableItem<S, T>[]>
    createOne: <T extends TableNames<S>>(tableName: T, record: TableItemInput<S, T>, options?: MutationOptions) => Promise<TableItem<S, T>>
-   update: <T extends TableNames<S>>(tableName: T, filter: FilterQuery<S, T>, patch: TableItemInput<S, T>, options?: MutationOptions) => Promise<number>
-   updateOne: <T extends TableNames<S>>(tableName: T, filter: FilterQuery<S, T>, patch: TableItemInput<S, T>, options?: MutationOptions) => Promise<TableItem<S, T> | undefined>
+   upsert: <T extends TableNames<S>>(tableName: T, records: TableItemInput<S, T>[], options?: UpsertOptions<S, T>) => Promise<TableItem<S, T>[]>
+   update: <T extends TableNames<S>>(tableName: T, filter: FilterQuery<S, T>, patch: TableItemPatch<S, T>, options?: MutationOptions) => Promise<number>
+   updateOne: <T extends TableNames<S>>(tableName: T, filter: FilterQuery<S, T>, patch: TableItemPatch<S, T>, options?: MutationOptions) => Promise<TableItem<S, T> | undefined>
    remove: <T extends TableNames<S>>(tableName: T, filter: FilterQuery<S, T>, options?: MutationOptions) => Promise<number>
    removeOne: <T extends TableNames<S>>(tableName: T, filter: FilterQuery<S, T>, options?: MutationOptions) => Promise<TableItem<S, T> | undefined>
+   forceRemove: <T extends TableNames<S>>(tableName: T, filter: FilterQuery<S, T>, options?: MutationOptions) => Promise<number>
+   restore: <T extends TableNames<S>>(tableName: T, filter: FilterQuery<S, T>, options?: MutationOptions) => Promise<number>
+   addHooks: {
+      (hooks: LifecycleHooks<S>): () => void
+      <T extends TableNames<S>>(tableName: T, hooks: LifecycleHooks<S, T>): () => void
+   }
+   transaction: <R>(work: (tx: Instance<S>) => Promise<R>, options?: TransactionOptions) => Promise<R>
    migrate: () => Promise<MigrationResult>
    planMigrations: () => Promise<SchemaOperation[]>
 }
@@ -1,3 +1,5 @@
+import type { Knex } from 'knex'
+import type { z } from 'zod'
 import type { BaseFieldDefinition } from './fields'
 import type { BelongsToRelationDefinition } from './relations'
 import type { Schema, TableNames } from './schema'
@@ -16,8 +18,23 @@ interface BaseColumnDefinition extends BaseFieldDefinition {
 export interface ColumnDefinition extends BaseColumnDefinition {
    type: DataTypes
    primary?: boolean
+   /** Zod schema validating and typing the values of a `json` / `jsonb` column */
+   schema?: z.ZodType
+   /** Create a full-text index on a string column, enabling the `$search` operator */
+   fullText?: boolean
+   /** Store the soft deletion date of records in this column, making `remove` set it instead of deleting them */
+   softDelete?: boolean
+   /** Store the version of records in this integer column, incremented by every update and checked when the patch sets it */
+   version?: boolean
+   /** Value set on every update that doesn't set the column, such as `'{now}'`, typed by {@link TypedColumnDefinition} */
+   onUpdate?: unknown
 }
 
+/** Column definition of any data type, typing its `onUpdate` value against the column type */
+export type TypedColumnDefinition = {
+   [T in DataTypes]: ColumnDefinition & { type: T, onUpdate?: DataType<T> | `{${keyof Knex.FunctionHelper}}` }
+}[DataTypes]
+
 /** Extract column field names (including BelongsTo by default) */
 export type TableColumnNames<S extends Schema, T extends TableNames<S>, BelongsTo = true>
    = { [K in keyof S[T]]: S[T][K] extends (BelongsTo extends true
@@ -28,15 +45,17 @@ export type TableColumnNames<S extends Schema, T extends TableNames<S>, BelongsT
 export type TableColumn<S extends Schema, T extends TableNames<S>, K extends TableColumnNames<S, T>>
    = S[T][K]
 
-/** Helper to infer type with options support */
+/** Helper to infer type with options and JSON schema support */
 type InferTypeWithOptions<T extends ColumnDefinition>
-   = DataType<T['type']> extends infer TT
-      ? T extends { options: (infer U)[] }
-         ? TT extends unknown[]
-            ? U[]
-            : U
-         : TT
-      : never
+   = T extends { schema: infer Z extends z.ZodType }
+      ? z.output<Z>
+      : DataType<T['type']> extends infer TT
+         ? T extends { options: (infer U)[] }
+            ? TT extends unknown[]
+               ? U[]
+               : U
+            : TT
+         : never
 
 /** Infer TypeScript type from column definition */
 export type InferColumnType<
@@ -1,7 +1,7 @@
 import type { Knex } from 'knex'
-import type { ColumnDefinition, TableColumnNames } from './columns'
+import type { TableColumnNames, TypedColumnDefinition } from './columns'
 import type { GenerateNestedWildcards } from './helpers'
-import type { RelatedFieldName, RelationDefinition } from './relations'
+import type { PivotFieldName, RelatedFieldName, RelationDefinition } from './relations'
 import type { Schema, TableNames } from './schema'
 
 export interface BaseFieldDefinition {
@@ -9,7 +9,7 @@ export interface BaseFieldDefinition {
    default?: unknown | `{${keyof Knex.FunctionHelper}}`
 }
 
-export type FieldDefinition = ColumnDefinition | RelationDefinition
+export type FieldDefinition = TypedColumnDefinition | RelationDefinition
 
 /** All valid field selectors for a table (columns, wildcards, nested paths) */
 export type FieldName<
@@ -24,4 +24,4 @@ export type FieldName<
          ? GenerateNestedWildcards<S, T, RootTable>
          : '*'
       : never)
-   | (Deep extends true ? RelatedFieldName<S, T, RootTable, Placeholder> : never)
+   | (Deep extends true ? RelatedFieldName<S, T, RootTable, Placeholder> | PivotFieldName<S, T, RootTable> : never)
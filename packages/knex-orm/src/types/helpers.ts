@@ -1,10 +1,14 @@
+import type { z } from 'zod'
 import type { TableRelation, TableRelationNames } from './relations'
 import type { Schema, TableNames } from './schema'
 
+/** Flatten intersections for readability (Zod schemas of JSON columns are kept as is) */
 export type Prettify<T> = T extends object ? ({
-   -readonly [K in keyof T]: T[K] extends object
-      ? Prettify<T[K]>
-      : T[K]
+   -readonly [K in keyof T]: T[K] extends z.ZodType
+      ? T[K]
+      : T[K] extends object
+         ? Prettify<T[K]>
+         : T[K]
 } & {}) : T
 
 export type Merge<T, U> = {
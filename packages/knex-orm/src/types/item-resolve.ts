@@ -2,7 +2,7 @@
 import type { TableColumnNames } from './columns'
 import type { FieldName } from './fields'
 import type { Prettify } from './helpers'
-import type { BelongsToRelationDefinition, HasManyRelationDefinition, HasOneRelationDefinition, ManyToManyRelationDefinition, TableRelation, TableRelationNames } from './relations'
+import type { BelongsToRelationDefinition, HasManyRelationDefinition, HasOneRelationDefinition, ManyToManyRelationDefinition, RelationPivot, RelationPivotColumnNames, TableRelation, TableRelationNames } from './relations'
 import type { Schema, TableItem, TableNames } from './schema'
 
 /** Split dot-notation path into segments */
@@ -30,11 +30,15 @@ type ProcessRelationPath<
    RestPath extends string[],
    RootTable extends TableNames<S>,
 > = TableRelation<S, N, RelName> extends infer TR
-   ? TR extends HasManyRelationDefinition | ManyToManyRelationDefinition
-      ? TR['table'] extends TableNames<S> ? ResolvePathWithRoot<S, TR['table'], RestPath, RootTable, N>[] : never
-      : TR extends BelongsToRelationDefinition | HasOneRelationDefinition
-         ? TR['table'] extends TableNames<S> ? ApplyNullable<ResolvePathWithRoot<S, TR['table'], RestPath, RootTable, N>, TR> : never
-         : never
+   ? TR extends ManyToManyRelationDefinition
+      ? RestPath extends ['$pivot', infer Column extends RelationPivotColumnNames<S, TR>]
+         ? { $pivot: RelationPivot<S, TR, Column> }[]
+         : TR['table'] extends TableNames<S> ? ResolvePathWithRoot<S, TR['table'], RestPath, RootTable, N>[] : never
+      : TR extends HasManyRelationDefinition
+         ? TR['table'] extends TableNames<S> ? ResolvePathWithRoot<S, TR['table'], RestPath, RootTable, N>[] : never
+         : TR extends BelongsToRelationDefinition | HasOneRelationDefinition
+            ? TR['table'] extends TableNames<S> ? ApplyNullable<ResolvePathWithRoot<S, TR['table'], RestPath, RootTable, N>, TR> : never
+            : never
    : never
 
 /** Resolve path on a relation's table while maintaining RootTable and ParentTable */
@@ -1,5 +1,64 @@
 import type { Knex } from 'knex'
+import type { TableColumnNames } from './columns'
+import type { FilterQuery, SoftDeleteQueryOptions } from './query'
+import type { Schema, TableItem, TableItemInput, TableItemPatch, TableNames } from './schema'
 
-export interface MutationOptions {
+export interface RetryPolicy {
+   /** Maximum number of times the transaction runs (defaults to 3) */
+   maxAttempts?: number
+   /** Delay in milliseconds before running it again, or a function of the failed attempt number (defaults to 50ms, doubling every attempt) */
+   backoff?: number | ((attempt: number) => number)
+}
+
+export interface TransactionOptions {
+   /** Isolation level of the transaction */
+   isolationLevel?: Knex.IsolationLevels
+   /** Run the transaction again when it fails with a deadlock or serialization error, with the default policy when `true` */
+   retry?: boolean | RetryPolicy
+}
+
+export interface MutationOptions extends TransactionOptions {
+   /** Transaction to run the mutation in, instead of starting one */
    trx?: Knex.Transaction
 }
+
+export interface QueryOptions extends MutationOptions, SoftDeleteQueryOptions {}
+
+export interface CreateOptions extends MutationOptions {
+   /** Maximum number of records inserted by a single statement (defaults to 500) */
+   batchSize?: number
+}
+
+export interface UpsertOptions<S extends Schema, N extends TableNames<S>> extends MutationOptions {
+   /** Columns of the unique constraint matching existing records (defaults to the primary key) */
+   conflict?: TableColumnNames<S, N>[]
+   /** Columns updated on existing records: every inserted column when `true`, none when `false` (defaults to `true`) */
+   merge?: TableColumnNames<S, N>[] | boolean
+}
+
+interface LifecycleHookContext<N> {
+   tableName: N
+   /** Transaction of the mutation, rolled back when a hook throws */
+   trx: Knex.Transaction
+}
+
+type LifecycleHook<N, C> = (context: LifecycleHookContext<N> & C) => void | Promise<void>
+
+/**
+ * Record lifecycle hooks, run inside the transaction of the mutation.
+ * Payloads can be modified in place, and throwing aborts the mutation.
+ */
+export interface LifecycleHooks<S extends Schema = Schema, N extends TableNames<S> = TableNames<S>> {
+   /** Run before inserting each record */
+   beforeCreate?: LifecycleHook<N, { record: TableItemInput<S, N> }>
+   /** Run after inserting each record and its nested relations */
+   afterCreate?: LifecycleHook<N, { record: TableItem<S, N> }>
+   /** Run before updating the records matching the filter */
+   beforeUpdate?: LifecycleHook<N, { filter: FilterQuery<S, N>, patch: TableItemPatch<S, N> }>
+   /** Run after updating records, with their updated values */
+   afterUpdate?: LifecycleHook<N, { filter: FilterQuery<S, N>, patch: TableItemPatch<S, N>, records: TableItem<S, N>[] }>
+   /** Run before removing the records matching the filter */
+   beforeRemove?: LifecycleHook<N, { filter: FilterQuery<S, N> }>
+   /** Run after removing records, with their number */
+   afterRemove?: LifecycleHook<N, { filter: FilterQuery<S, N>, count: number }>
+}
@@ -1,26 +1,107 @@
 import type { ColumnDefinition, InferColumnType, TableColumnNames } from './columns'
 import type { FieldName } from './fields'
-import type { PickTableItemDotNotation, Prettify } from './helpers'
-import type { RelationForeignKeyColumn, RelationtableTable, TableRelation, TableRelationNames } from './relations'
+import type { DeepPartial, PickTableItemDotNotation, Prettify } from './helpers'
+import type { BelongsToFieldName, HasManyRelationDefinition, ManyToManyRelationDefinition, RelationForeignKeyColumn, RelationtableTable, SingularRelationFieldName, TableRelation, TableRelationNames } from './relations'
 import type { Schema, TableItem, TableNames } from './schema'
+import type { JsonPath } from '@/utils/json'
 import type { InferOperatorExpectedValue, Operator } from '@/utils/operators'
 
-export interface FindQueryParams<S extends Schema, N extends TableNames<S>, C extends FieldName<S, N>[] = []> {
+/** Soft deletion scope of queries on collections with a `softDelete` column, which exclude soft-deleted records by default */
+export interface SoftDeleteQueryOptions {
+   /** Include soft-deleted records */
+   withDeleted?: boolean
+   /** Only include soft-deleted records */
+   onlyDeleted?: boolean
+}
+
+export interface FindQueryParams<S extends Schema, N extends TableNames<S>, C extends FieldName<S, N>[] = []> extends SoftDeleteQueryOptions {
    columns?: C
    where?: FilterQuery<S, N>
-   orderBy?: `${'' | '-'}${FieldName<S, N, false>}`[]
+   orderBy?: `${'' | '-'}${OrderByField<S, N>}`[]
    limit?: number
    offset?: number
+   strategy?: RelationLoadingStrategy
+   with?: WithQueryParams<S, N>
+}
+
+/** Sortable fields: columns and column paths through belongs-to or has-one relations (e.g. "author.name") */
+export type OrderByField<S extends Schema, N extends TableNames<S>> = TableColumnNames<S, N> | SingularRelationFieldName<S, N>
+
+/** Options narrowing the records loaded for a selected relation */
+export interface RelationQueryOptions<S extends Schema, N extends TableNames<S>> {
+   where?: FilterQuery<S, N>
+   orderBy?: `${'' | '-'}${OrderByField<S, N>}`[]
+   limit?: number
+   offset?: number
+   with?: WithQueryParams<S, N>
+}
+
+/** Per-relation options keyed by relation name (e.g. `{ posts: { orderBy: ['-created_at'], limit: 5 } }`) */
+export type WithQueryParams<S extends Schema, N extends TableNames<S>> = {
+   [K in TableRelationNames<S, N>]?: RelationQueryOptions<S, RelationtableTable<S, N, K>>
+}
+
+/**
+ * How nested relations are loaded:
+ * - `join`: a single query joining every relation (default)
+ * - `select-in`: one `WHERE key IN (...)` query per relation level, avoiding cartesian products between has-many relations
+ */
+export type RelationLoadingStrategy = 'join' | 'select-in'
+
+export interface PaginateQueryParams<S extends Schema, N extends TableNames<S>> extends SoftDeleteQueryOptions {
+   where?: FilterQuery<S, N>
+   orderBy?: `${'' | '-'}${TableColumnNames<S, N>}`[]
+   first: number
+   after?: string | null
+}
+
+export interface PageInfo {
+   hasNextPage: boolean
+   endCursor: string | null
+}
+
+export interface PaginateResult<S extends Schema, N extends TableNames<S>> {
+   items: QueryResult<S, N>
+   pageInfo: PageInfo
 }
 
 /** Filter value for a column (value, array, or operator object) */
 export type FieldFilter<T = unknown>
    = T | T[] | { [K in Operator]?: InferOperatorExpectedValue<K, T> }
 
+/**
+ * Filter for a JSON column: `$containsJson` matches part of the value, `$path` applies the other operators to the value at that path.
+ * Values and comparison operators need a `$path`, as the raw column can't be compared on every database.
+ */
+export type JsonFieldFilter<T = unknown>
+   = null
+      | ({ [K in '$null' | '$nnull' | '$hasKey']?: InferOperatorExpectedValue<K, T> } & { $containsJson?: T extends object ? DeepPartial<T> : T })
+      | ({ $path: JsonPath } & { [K in Operator]?: InferOperatorExpectedValue<K, unknown> })
+
+/** Quantified filter over the records of a has-many or many-to-many relation */
+export interface RelationQuantifierFilter<S extends Schema, N extends TableNames<S>> {
+   /** At least one related record matches */
+   $some?: FilterQuery<S, N>
+   /** Every related record matches (true when there are none) */
+   $every?: FilterQuery<S, N>
+   /** No related record matches */
+   $none?: FilterQuery<S, N>
+   /** Number of related records */
+   $count?: FieldFilter<number>
+}
+
+/** Filter type for a relation (quantifiers are only available on has-many and many-to-many relations) */
+type RelationFilterType<S extends Schema, N extends TableNames<S>, K extends TableRelationNames<S, N>>
+   = FieldFilter<InferColumnType<RelationForeignKeyColumn<S, TableRelation<S, N, K>>>>
+      | FilterQuery<S, RelationtableTable<S, N, K>>
+      | (TableRelation<S, N, K> extends HasManyRelationDefinition | ManyToManyRelationDefinition ? RelationQuantifierFilter<S, RelationtableTable<S, N, K>> : never)
+
 /** Filter type for field (supports relation filters) */
 type FieldFilterType<S extends Schema, N extends TableNames<S>, K extends keyof TableItem<S, N>>
-   = K extends TableRelationNames<S, N> ? FieldFilter<InferColumnType<RelationForeignKeyColumn<S, TableRelation<S, N, K>>>> | FilterQuery<S, RelationtableTable<S, N, K>>
-      : K extends TableColumnNames<S, N> ? S[N][K] extends ColumnDefinition ? FieldFilter<InferColumnType<S[N][K]>> : never
+   = K extends TableRelationNames<S, N> ? RelationFilterType<S, N, K>
+      : K extends TableColumnNames<S, N> ? S[N][K] extends ColumnDefinition
+         ? S[N][K]['type'] extends 'json' | 'jsonb' ? JsonFieldFilter<InferColumnType<S[N][K]>> : FieldFilter<InferColumnType<S[N][K]>>
+         : never
          : never
 
 export type FilterQuery<S extends Schema, N extends TableNames<S>> = Prettify<{
@@ -35,3 +116,53 @@ export type QueryResult<S extends Schema, N extends TableNames<S>, C extends Fie
    : Prettify<PickTableItemDotNotation<S, N, C>>[]
 
 export type QueryResultItem<S extends Schema, N extends TableNames<S>, C extends FieldName<S, N>[] = []> = QueryResult<S, N, C> extends (infer U)[] ? U | undefined : never
+
+/** Columns and belongs-to paths (e.g. "author.email") an aggregation can be grouped by */
+export type AggregateGroupByField<S extends Schema, N extends TableNames<S>>
+   = TableColumnNames<S, N> | BelongsToFieldName<S, N>
+
+/** Aggregate expression over a column of the table */
+export type AggregateDefinition<S extends Schema, N extends TableNames<S>>
+   = { $count: '*' | TableColumnNames<S, N> }
+      | { $countDistinct: TableColumnNames<S, N> }
+      | { $sum: TableColumnNames<S, N> }
+      | { $avg: TableColumnNames<S, N> }
+      | { $min: TableColumnNames<S, N> }
+      | { $max: TableColumnNames<S, N> }
+
+export type AggregateFunction = '$count' | '$countDistinct' | '$sum' | '$avg' | '$min' | '$max'
+
+/** Infer the value type of an aggregate expression */
+export type InferAggregateValue<S extends Schema, N extends TableNames<S>, D>
+   = D extends { $count: any } | { $countDistinct: any } ? number
+      : D extends { $min: infer C } | { $max: infer C }
+         ? C extends keyof TableItem<S, N, false> ? TableItem<S, N, false>[C] | null : never
+         : number | null
+
+export type AggregateHavingQuery<S extends Schema, N extends TableNames<S>, A extends Record<string, AggregateDefinition<S, N>>> = {
+   [K in keyof A]?: FieldFilter<InferAggregateValue<S, N, A[K]>>
+}
+
+export interface AggregateQueryParams<
+   S extends Schema,
+   N extends TableNames<S>,
+   G extends AggregateGroupByField<S, N>[] = [],
+   A extends Record<string, AggregateDefinition<S, N>> = Record<string, AggregateDefinition<S, N>>,
+> extends SoftDeleteQueryOptions {
+   aggregates: A
+   where?: FilterQuery<S, N>
+   groupBy?: G
+   having?: AggregateHavingQuery<S, N, A>
+   orderBy?: `${'' | '-'}${(G[number] | keyof A) & string}`[]
+   limit?: number
+   offset?: number
+}
+
+export type AggregateResult<
+   S extends Schema,
+   N extends TableNames<S>,
+   G extends AggregateGroupByField<S, N>[] = [],
+   A extends Record<string, AggregateDefinition<S, N>> = Record<string, AggregateDefinition<S, N>>,
+> = Prettify<PickTableItemDotNotation<S, N, Extract<G[number], FieldName<S, N>>[]> & {
+   [K in keyof A]: InferAggregateValue<S, N, A[K]>
+}>[]
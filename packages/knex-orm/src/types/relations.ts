@@ -1,6 +1,7 @@
-import type { ColumnDefinition, InferColumnType } from './columns'
+import type { ColumnDefinition, InferColumnType, TableColumnNames } from './columns'
 import type { BaseFieldDefinition, FieldName } from './fields'
-import type { Schema, TableItem, TableNames } from './schema'
+import type { FilterQuery } from './query'
+import type { Schema, TableItem, TableItemInput, TableNames, TablePrimaryKeyValue } from './schema'
 
 export type RelationAction = 'CASCADE' | 'RESTRICT' | 'NO ACTION' | 'SET NULL' | 'SET DEFAULT'
 
@@ -21,6 +22,8 @@ export interface HasManyRelationDefinition extends BaseRelationDefinition {
 
 export interface BelongsToRelationDefinition extends BaseRelationDefinition {
    type: 'belongs-to'
+   /** Make the foreign key part of a composite primary key */
+   primary?: boolean
 }
 
 export interface ManyToManyRelationDefinition extends BaseRelationDefinition {
@@ -58,6 +61,60 @@ export type InferRelationType<S extends Schema, T extends RelationDefinition>
             : never
       : never
 
+/** Junction column names of a many-to-many relation (its `$pivot` fields), excluding the foreign keys */
+export type RelationPivotColumnNames<S extends Schema, T extends RelationDefinition>
+   = T extends ManyToManyRelationDefinition
+      ? T['through']['table'] extends TableNames<S>
+         ? Exclude<TableColumnNames<S, T['through']['table']>, T['through']['sourceFk'] | T['through']['tableFk']>
+         : never
+      : never
+
+/** Junction columns of a many-to-many relation */
+export type RelationPivot<S extends Schema, T extends RelationDefinition, K extends RelationPivotColumnNames<S, T> = RelationPivotColumnNames<S, T>>
+   = T extends ManyToManyRelationDefinition
+      ? T['through']['table'] extends TableNames<S> ? Pick<TableItem<S, T['through']['table'], false>, K> : never
+      : never
+
+/** Nested operations of has-one relations */
+export interface HasOneRelationMutation<S extends Schema, T extends TableNames<S>> {
+   /** Attach an existing record by primary key or a new one, replacing the current one */
+   $connect?: TablePrimaryKeyValue<S, T> | TableItemInput<S, T>
+   /** Detach the current record */
+   $disconnect?: true
+   /** Delete the current record */
+   $delete?: true
+}
+
+/** Nested operations of has-many and many-to-many relations */
+export interface ToManyRelationMutation<S extends Schema, T extends TableNames<S>, Item = TableItemInput<S, T>> {
+   /** Replace the attached records */
+   $set?: (TablePrimaryKeyValue<S, T> | Item)[]
+   /** Detach records by primary key */
+   $disconnect?: TablePrimaryKeyValue<S, T>[]
+   /** Delete attached records by primary key or filter */
+   $delete?: TablePrimaryKeyValue<S, T>[] | { where: FilterQuery<S, T> }
+   /** Attach existing records by primary key or new ones */
+   $connect?: (TablePrimaryKeyValue<S, T> | Item)[]
+}
+
+/** Infer relation input type of create and update payloads based on relation kind */
+export type InferRelationInputType<S extends Schema, T extends RelationDefinition>
+   = T['table'] extends TableNames<S>
+      ? T['type'] extends 'belongs-to'
+         ? TableItemInput<S, T['table']> | InferColumnType<RelationForeignKeyColumn<S, T>, T['nullable']>
+         : T['type'] extends 'has-one'
+            ? TableItemInput<S, T['table']> | InferColumnType<RelationForeignKeyColumn<S, T>, T['nullable']> | HasOneRelationMutation<S, T['table']>
+            : T['type'] extends 'has-many'
+               ? (TableItemInput<S, T['table']> | NonNullable<InferColumnType<RelationForeignKeyColumn<S, T>>>)[] | ToManyRelationMutation<S, T['table']>
+               : T['type'] extends 'many-to-many'
+                  ? (ManyToManyItemInput<S, T> | NonNullable<InferColumnType<RelationForeignKeyColumn<S, T>>>)[] | ToManyRelationMutation<S, T['table'], ManyToManyItemInput<S, T>>
+                  : never
+      : never
+
+/** Many-to-many payload, which can also write the junction columns */
+type ManyToManyItemInput<S extends Schema, T extends RelationDefinition>
+   = TableItemInput<S, T['table'] & TableNames<S>> & { $pivot?: Partial<RelationPivot<S, T>> }
+
 /** Generate nested field names for relations (e.g., "posts.title") */
 export type RelatedFieldName<S extends Schema, T extends TableNames<S>, RootTable extends TableNames<S> = T, Placeholder = true>
    = TableRelationNames<S, T> extends infer Names extends string
@@ -74,6 +131,36 @@ export type RelatedFieldName<S extends Schema, T extends TableNames<S>, RootTabl
          : never
       : never
 
+/** Generate junction column paths of many-to-many relations (e.g., "roles.$pivot.scope") */
+export type PivotFieldName<S extends Schema, T extends TableNames<S>, RootTable extends TableNames<S> = T>
+   = { [K in TableRelationNames<S, T>]: TableRelation<S, T, K>['table'] extends RootTable
+      ? never
+      : `${K}.$pivot.${RelationPivotColumnNames<S, TableRelation<S, T, K>>}` }[TableRelationNames<S, T>]
+
 /** Extract table name from relation */
 export type RelationtableTable<S extends Schema, N extends TableNames<S>, K extends TableRelationNames<S, N>>
    = TableRelation<S, N, K>['table'] & TableNames<S>
+
+/** Generate dot-notation column paths reachable through belongs-to relations (e.g. "author.email") */
+export type BelongsToFieldName<S extends Schema, T extends TableNames<S>, Depth extends unknown[] = []>
+   = Depth['length'] extends 3
+      ? never
+      : { [K in TableRelationNames<S, T>]: TableRelation<S, T, K> extends infer TR
+            ? TR extends BelongsToRelationDefinition
+               ? TR['table'] extends TableNames<S>
+                  ? `${K}.${TableColumnNames<S, TR['table']> | BelongsToFieldName<S, TR['table'], [...Depth, unknown]>}`
+                  : never
+               : never
+            : never }[TableRelationNames<S, T>]
+
+/** Generate dot-notation column paths reachable through belongs-to and has-one relations (e.g. "author.email", "profile.bio") */
+export type SingularRelationFieldName<S extends Schema, T extends TableNames<S>, Depth extends unknown[] = []>
+   = Depth['length'] extends 3
+      ? never
+      : { [K in TableRelationNames<S, T>]: TableRelation<S, T, K> extends infer TR
+            ? TR extends BelongsToRelationDefinition | HasOneRelationDefinition
+               ? TR['table'] extends TableNames<S>
+                  ? `${K}.${TableColumnNames<S, TR['table']> | SingularRelationFieldName<S, TR['table'], [...Depth, unknown]>}`
+                  : never
+               : never
+            : never }[TableRelationNames<S, T>]
@@ -3,7 +3,7 @@ import type { NormalizedCollectionDefinition } from './collection'
 import type { ColumnDefinition, InferColumnType, TableColumnNames } from './columns'
 import type { FieldDefinition } from './fields'
 import type { DeepPartial, Prettify } from './helpers'
-import type { BelongsToRelationDefinition, InferRelationType, RelationForeignKeyColumn, TableRelation, TableRelationNames } from './relations'
+import type { BelongsToRelationDefinition, InferRelationInputType, InferRelationType, ManyToManyRelationDefinition, RelationForeignKeyColumn, TableRelation, TableRelationNames } from './relations'
 
 export type CollectionDefinition = Record<string, FieldDefinition>
 
@@ -24,7 +24,26 @@ export type TableItem<S extends Schema, T extends TableNames<S>, Deep = true> =
    } & (Deep extends true ? { [K in TableRelationNames<S, T>]: InferRelationType<S, TableRelation<S, T, K>> } : {})
 >
 
-export type TableItemInput<S extends Schema, N extends TableNames<S>> = Prettify<DeepPartial<TableItem<S, N>>>
+/** Create and update payload, where relations also accept nested operations (`{ $connect: [1] }`) */
+export type TableItemInput<S extends Schema, N extends TableNames<S>> = Prettify<
+   DeepPartial<Omit<TableItem<S, N, false>, TableRelationNames<S, N>>>
+   & { [K in TableRelationNames<S, N>]?: InferRelationInputType<S, TableRelation<S, N, K>> }
+>
+
+/** Update operation computing the new value of a column of a data type from its current one */
+export type UpdateOperation<T, Type = unknown> = NonNullable<T> extends number
+   ? { $inc: number } | { $dec: number }
+   : Type extends 'json' | 'jsonb'
+      ? NonNullable<T> extends readonly (infer E)[] ? { $append: E } : unknown extends T ? { $append: unknown } : never
+      : string extends NonNullable<T>
+         ? { $append: string }
+         : never
+
+/** Update payload, where columns also accept update operations */
+export type TableItemPatch<S extends Schema, N extends TableNames<S>> = Prettify<{
+   [K in keyof TableItemInput<S, N>]?: TableItemInput<S, N>[K]
+      | (K extends keyof TableItem<S, N> ? UpdateOperation<TableItem<S, N>[K], K extends keyof S[N] ? S[N][K] extends { type: infer Type } ? Type : unknown : unknown> : never)
+}>
 
 /** Extract primary key column name */
 export type TablePrimaryKeyName<S extends Schema, N extends TableNames<S>>
@@ -36,6 +55,22 @@ export type TablePrimaryKeyValue<S extends Schema, N extends TableNames<S>>
       ? S[N][PK] extends ColumnDefinition ? InferColumnType<S[N][PK]> : never
       : never
 
-export type NormalizedSchemaDefinition<S extends Schema> = Prettify<{
-   [K in keyof S]: NormalizedCollectionDefinition<S[K]>
-}>
+/** Many-to-many relations whose junction table isn't declared in the schema, with their source table */
+type UndeclaredJunction<S extends Schema> = {
+   [N in TableNames<S>]: {
+      [K in keyof S[N]]: S[N][K] extends ManyToManyRelationDefinition
+         ? S[N][K]['through']['table'] extends keyof S ? never : { source: N, relation: S[N][K] }
+         : never
+   }[keyof S[N]]
+}[TableNames<S>]
+
+/** Junction collection generated for a many-to-many relation, keyed by both foreign keys */
+export type JunctionCollectionDefinition<S extends Schema, N extends TableNames<S>, R extends ManyToManyRelationDefinition> = Prettify<
+   { [K in R['through']['sourceFk']]: { type: 'belongs-to', table: N, foreignKey: TablePrimaryKeyName<S, N>, primary: true, nullable: false, onDelete: 'CASCADE', onUpdate: 'CASCADE' } }
+   & { [K in R['through']['tableFk']]: { type: 'belongs-to', table: R['table'], foreignKey: R['foreignKey'], primary: true, nullable: false, onDelete: 'CASCADE', onUpdate: 'CASCADE' } }
+>
+
+export type NormalizedSchemaDefinition<S extends Schema> = Prettify<
+   { [K in keyof S]: NormalizedCollectionDefinition<S[K]> }
+   & { [J in UndeclaredJunction<S> as J['relation']['through']['table']]: JunctionCollectionDefinition<S, J['source'], J['relation']> }
+>
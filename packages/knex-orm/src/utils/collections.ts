@@ -1,9 +1,9 @@
 import type { DataTypes } from './data-types'
 import type { ColumnDefinitionWithReferences } from './migrations'
 import type { NormalizedCollectionDefinition, NormalizedFieldDefinition } from '@/types/collection'
-import type { ColumnDefinition } from '@/types/columns'
+import type { ColumnDefinition, TypedColumnDefinition } from '@/types/columns'
 import type { FieldDefinition } from '@/types/fields'
-import type { BelongsToRelationDefinition, RelationDefinition } from '@/types/relations'
+import type { BelongsToRelationDefinition, ManyToManyRelationDefinition, RelationDefinition } from '@/types/relations'
 import type { CollectionDefinition, Schema, TableNames } from '@/types/schema'
 import defu from 'defu'
 import { globalCache } from './cache'
@@ -16,7 +16,7 @@ const DEFAULT_BELONGSTO_OPTS = { nullable: true, onDelete: 'CASCADE', onUpdate:
 /**
  * Check if field is a column definition (not a relation)
  */
-export function isColumn(field: FieldDefinition): field is ColumnDefinition {
+export function isColumn(field: FieldDefinition): field is TypedColumnDefinition {
    return !RELATION_TYPES.has(field.type)
 }
 
@@ -37,6 +37,7 @@ function belongsToColumn(schema: Schema, field: BelongsToRelationDefinition) {
    return {
       type: schema[field.table][field.foreignKey].type as DataTypes,
       nullable: field.nullable ?? true,
+      primary: field.primary,
       unsigned: referencedColumnDef?.increments === true,
       references: {
          table: field.table,
@@ -74,6 +75,19 @@ export function getColumns(
    return result
 }
 
+/**
+ * Extract the junction column definitions of a many-to-many relation (its `$pivot` fields), excluding the foreign keys
+ */
+export function getPivotColumns(schema: Schema, relation: ManyToManyRelationDefinition) {
+   const junction = schema[relation.through.table]
+   if (!junction) return {}
+
+   const columns = { ...getColumns(schema, junction, { includeBelongsTo: true }) }
+   delete columns[relation.through.sourceFk]
+   delete columns[relation.through.tableFk]
+   return columns
+}
+
 /**
  * Extract all relation definitions from a collection
  * Results are cached for performance when includeBelongsTo is not false
@@ -114,17 +128,66 @@ export function getCollection<S extends Schema, N extends TableNames<S>>(schema:
 }
 
 /**
- * Get the primary key column name from a collection
+ * Get the primary key column names from a collection, several for composite keys
  * Results are cached for performance
  */
+export function getPrimaryKeys(collection: CollectionDefinition) {
+   return globalCache.useCache('primaryKeys', collection, () => {
+      const keys = Object.entries(collection)
+         .filter(([, def]) => (isColumn(def) || isBelongsTo(def)) && def.primary === true)
+         .map(([key]) => key)
+      if (!keys.length) throw new Error('No primary key column was found')
+      return keys
+   })
+}
+
+/**
+ * Get the primary key column name from a collection
+ * Throws an error for composite primary keys
+ */
 export function getPrimaryKey(collection: CollectionDefinition) {
-   return globalCache.useCache('primaryKey', collection, () => {
+   const keys = getPrimaryKeys(collection)
+   if (keys.length > 1) throw new Error(`Composite primary key (${keys.join(', ')}) can't be used as a single key`)
+   return keys[0]!
+}
+
+/**
+ * Get the soft deletion column name from a collection, if it has one
+ * Results are cached for performance
+ */
+export function getSoftDeleteColumn(collection: CollectionDefinition) {
+   return globalCache.useCache('softDeleteColumn', collection, () => {
+      return Object.keys(collection).find((key) => {
+         const def = collection[key]!
+         return isColumn(def) && def.softDelete === true
+      })
+   })
+}
+
+/**
+ * Get the version column name from a collection, if it has one
+ * Results are cached for performance
+ */
+export function getVersionColumn(collection: CollectionDefinition) {
+   return globalCache.useCache('versionColumn', collection, () => {
+      return Object.keys(collection).find((key) => {
+         const def = collection[key]!
+         return isColumn(def) && def.version === true
+      })
+   })
+}
+
+/**
+ * Get the values of the columns refreshed on every update (`onUpdate`) from a collection
+ * Results are cached for performance
+ */
+export function getOnUpdateValues(collection: CollectionDefinition) {
+   return globalCache.useCache('onUpdateValues', collection, () => {
+      const values: Record<string, unknown> = {}
       for (const [key, def] of Object.entries(collection)) {
-         if (isColumn(def) && def.primary === true) {
-            return key
-         }
+         if (isColumn(def) && def.onUpdate !== undefined) values[key] = def.onUpdate
       }
-      throw new Error('No primary key column was found')
+      return values
    })
 }
 
@@ -170,7 +233,7 @@ export function withTimestamps<const C extends CollectionDefinition>(collection:
    return {
       ...collection,
       created_at: { type: 'timestamp', nullable: false, default: '{now}' },
-      updated_at: { type: 'timestamp', nullable: false, default: '{now}' },
+      updated_at: { type: 'timestamp', nullable: false, default: '{now}', onUpdate: '{now}' },
    } as const
 }
 
@@ -184,6 +247,26 @@ export function withUuid<const C extends CollectionDefinition>(collection: C) {
    } as const
 }
 
+/**
+ * Add a deleted_at column storing the soft deletion date of records
+ */
+export function withSoftDelete<const C extends CollectionDefinition>(collection: C) {
+   return {
+      ...collection,
+      deleted_at: { type: 'timestamp', softDelete: true },
+   } as const
+}
+
+/**
+ * Add a version column used for optimistic concurrency control
+ */
+export function withVersion<const C extends CollectionDefinition>(collection: C) {
+   return {
+      ...collection,
+      version: { type: 'integer', nullable: false, default: 1, version: true },
+   } as const
+}
+
 /**
  * Combine withId and withTimestamps
  */
@@ -3,7 +3,7 @@ import type { Buffer } from 'node:buffer'
 import type { z } from 'zod'
 import type { ColumnDefinition } from '@/types/columns'
 import type { Operator } from '@/utils/operators'
-import { OPERATORS } from '@/utils/operators'
+import { getCustomOperators, OPERATORS } from '@/utils/operators'
 import binary from './binary'
 import boolean from './boolean'
 import date from './date'
@@ -95,9 +95,10 @@ export function getDataTypeBeforeRemove<T extends DataTypes>(type: T) {
  * Get the data type operators for a given data type.
  */
 export function getDataTypeOperators<T extends DataTypes>(type: T): Operator[] {
-   return getDataTypeDefinition(type).operators
+   const operators = getDataTypeDefinition(type).operators
       ?? getDataTypeGroupDefinition(type).operators
       ?? Object.keys(OPERATORS) as Operator[]
+   return [...operators, ...getCustomOperators(type)]
 }
 
 /**
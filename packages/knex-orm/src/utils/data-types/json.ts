@@ -5,15 +5,15 @@ import z from 'zod'
  * JSON data types group definition.
  */
 export default {
-   operators: ['$eq', '$neq', '$in', '$nin', '$null', '$nnull'],
+   operators: ['$eq', '$neq', '$in', '$nin', '$gt', '$gte', '$lt', '$lte', '$contains', '$startsWith', '$endsWith', '$like', '$null', '$nnull', '$hasKey', '$containsJson'],
    types: {
       json: {
          create: ({ builder, columnName }) => builder.json(columnName),
-         validate: () => z.any(),
+         validate: ({ definition }) => definition.schema ?? z.any(),
       },
       jsonb: {
          create: ({ builder, columnName }) => builder.jsonb(columnName),
-         validate: () => z.any(),
+         validate: ({ definition }) => definition.schema ?? z.any(),
       },
    },
 } satisfies DataTypeGroupProps
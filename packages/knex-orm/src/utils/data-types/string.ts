@@ -5,7 +5,7 @@ import z from 'zod'
  * String data types group definition.
  */
 export default {
-   operators: ['$eq', '$neq', '$in', '$nin', '$startsWith', '$nstartsWith', '$endsWith', '$nendsWith', '$contains', '$ncontains', '$null', '$nnull'],
+   operators: ['$eq', '$neq', '$in', '$nin', '$startsWith', '$nstartsWith', '$endsWith', '$nendsWith', '$contains', '$ncontains', '$icontains', '$istartsWith', '$iendsWith', '$ilike', '$regex', '$search', '$null', '$nnull'],
    types: {
       text: {
          create: ({ builder, columnName }) => builder.text(columnName),
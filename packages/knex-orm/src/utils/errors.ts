@@ -0,0 +1,9 @@
+/**
+ * Error thrown when an update expects records at a version they no longer have, after a concurrent update
+ */
+export class OptimisticLockError extends Error {
+   constructor(readonly tableName: string, readonly version: unknown) {
+      super(`Records of table "${tableName}" were updated since version ${String(version)}`)
+      this.name = 'OptimisticLockError'
+   }
+}
@@ -1,10 +1,13 @@
 import type { Knex } from 'knex'
-import type { Operator } from './operators'
-import type { FieldFilter, FilterQuery } from '@/types/query'
-import type { Schema, TableNames } from '@/types/schema'
+import type { JsonPath } from './json'
+import type { OperatorTarget } from './operators'
+import type { FieldFilter, FilterQuery, RelationQuantifierFilter, SoftDeleteQueryOptions } from '@/types/query'
+import type { HasManyRelationDefinition, ManyToManyRelationDefinition } from '@/types/relations'
+import type { CollectionDefinition, Schema, TableNames } from '@/types/schema'
 import { hash } from 'ohash'
-import { getCollection, getColumns, getPrimaryKey, getRelations } from './collections'
-import { OPERATORS } from './operators'
+import { getCollection, getColumns, getPrimaryKey, getRelations, getSoftDeleteColumn } from './collections'
+import { jsonPathExpression } from './json'
+import { getOperator, isOperator } from './operators'
 import { isBelongsTo, isHasMany, isHasOne, isManyToMany } from './relations'
 
 /**
@@ -17,17 +20,35 @@ function isPrimitive(value: unknown): value is string | number | boolean | Date
 /**
  * Apply a field filter to the query builder
  */
-function applyFieldFilter(builder: Knex.QueryBuilder, column: string, value: FieldFilter) {
+export function applyFieldFilter(builder: Knex.QueryBuilder, column: string, value: FieldFilter, target?: OperatorTarget) {
    if (isPrimitive(value)) return builder.where(column, value as never)
    if (Array.isArray(value)) return builder.whereIn(column, value)
 
+   if ('$path' in (value as object)) {
+      const { $path, ...operators } = value as { $path: JsonPath } & Record<string, unknown>
+      // the operand of null checks says nothing about the type of the value at the path
+      const operand = Object.entries(operators).find(([operator]) => operator !== '$null' && operator !== '$nnull')?.[1]
+      // operators accept raw expressions in place of a column name
+      const expression = jsonPathExpression(builder, column, $path, operand) as unknown as string
+      return applyFieldFilter(builder, expression, operators as FieldFilter)
+   }
+
    for (const [operator, operand] of Object.entries(value as Record<string, unknown>)) {
-      const operatorFn = OPERATORS[operator as Operator]
+      const operatorFn = getOperator(operator)
       if (!operatorFn) throw new Error(`Invalid operator: ${operator}`)
-      operatorFn(builder, column, operand as never)
+      operatorFn(builder, column, operand as never, target)
    }
 }
 
+/**
+ * Exclude the soft-deleted records of a collection from a query, unless `withDeleted` or `onlyDeleted` is set
+ */
+export function applySoftDeleteScope(qb: Knex.QueryBuilder, collection: CollectionDefinition, tableAlias: string, options: SoftDeleteQueryOptions = {}) {
+   const column = getSoftDeleteColumn(collection)
+   if (!column || options.withDeleted) return qb
+   return options.onlyDeleted ? qb.whereNotNull(`${tableAlias}.${column}`) : qb.whereNull(`${tableAlias}.${column}`)
+}
+
 /**
  * Check if value is a simple field filter (primitives or operators only, not nested queries)
  */
@@ -38,11 +59,147 @@ function isSimpleFieldFilter(value: unknown): boolean {
    if ('$and' in value || '$or' in value) return false
 
    for (const key in value) {
-      if (!(key in OPERATORS)) return false
+      if (!isOperator(key)) return false
    }
    return true
 }
 
+const RELATION_QUANTIFIERS = ['$some', '$every', '$none', '$count']
+
+/**
+ * Check if value is a quantifier filter over a relation ($some, $every, $none, $count)
+ */
+function isQuantifierFilter(value: unknown): value is RelationQuantifierFilter<Schema, string> {
+   if (isPrimitive(value) || Array.isArray(value)) return false
+   const keys = Object.keys(value as object)
+   return keys.length > 0 && keys.every(key => RELATION_QUANTIFIERS.includes(key))
+}
+
+/**
+ * Build a subquery selecting the related records of a base record, correlated on the base record key
+ */
+function relatedRecordsSubquery<S extends Schema>(
+   knex: Knex,
+   schema: S,
+   relationName: string,
+   relation: HasManyRelationDefinition | ManyToManyRelationDefinition,
+   baseRef: string,
+   baseKey: string,
+) {
+   const relationAlias = hash({ quantifier: relationName, from: baseRef })
+   const subquery = knex(`${relation.table} as ${relationAlias}`).select(knex.raw('1'))
+
+   if (isManyToMany(relation)) {
+      const { through } = relation
+      const junctionAlias = hash({ junction: relationAlias })
+      const relatedPk = getPrimaryKey(getCollection(schema, relation.table))
+      subquery
+         .innerJoin(`${through.table} as ${junctionAlias}`, `${junctionAlias}.${through.tableFk}`, `${relationAlias}.${relatedPk}`)
+         .where(`${junctionAlias}.${through.sourceFk}`, knex.ref(baseKey))
+   }
+   else {
+      subquery.where(`${relationAlias}.${relation.foreignKey}`, knex.ref(baseKey))
+   }
+
+   applySoftDeleteScope(subquery, getCollection(schema, relation.table), relationAlias)
+   return { subquery, relationAlias }
+}
+
+/**
+ * Build a subquery selecting the keys of base records whose number of related records matches the filter
+ */
+function relationCountSubquery<S extends Schema>(
+   knex: Knex,
+   schema: S,
+   baseTable: TableNames<S>,
+   relationName: string,
+   relation: HasManyRelationDefinition | ManyToManyRelationDefinition,
+   filter: FieldFilter,
+) {
+   const basePk = getPrimaryKey(getCollection(schema, baseTable))
+   const countAlias = hash({ count: relationName, from: baseTable })
+   const relatedAlias = hash({ junction: countAlias })
+   const counts = knex(`${baseTable} as ${countAlias}`)
+      .groupBy(`${countAlias}.${basePk}`)
+      .select({ relation_key: `${countAlias}.${basePk}` })
+
+   const relatedCollection = getCollection(schema, relation.table)
+   const softDeleteColumn = getSoftDeleteColumn(relatedCollection)
+
+   if (isManyToMany(relation)) {
+      counts.leftJoin(`${relation.through.table} as ${relatedAlias}`, `${relatedAlias}.${relation.through.sourceFk}`, `${countAlias}.${basePk}`)
+
+      if (softDeleteColumn) {
+         // soft-deleted related records are left out of the junction rows
+         const targetAlias = hash({ target: countAlias })
+         const relatedPk = getPrimaryKey(relatedCollection)
+         counts
+            .leftJoin(`${relation.table} as ${targetAlias}`, (join) => {
+               join.on(`${targetAlias}.${relatedPk}`, `${relatedAlias}.${relation.through.tableFk}`).andOnNull(`${targetAlias}.${softDeleteColumn}`)
+            })
+            .count({ relation_count: `${targetAlias}.${relatedPk}` })
+      }
+      else {
+         counts.count({ relation_count: `${relatedAlias}.${relation.through.tableFk}` })
+      }
+   }
+   else {
+      counts
+         .leftJoin(`${relation.table} as ${relatedAlias}`, (join) => {
+            join.on(`${relatedAlias}.${relation.foreignKey}`, `${countAlias}.${basePk}`)
+            if (softDeleteColumn) join.andOnNull(`${relatedAlias}.${softDeleteColumn}`)
+         })
+         .count({ relation_count: `${relatedAlias}.${getPrimaryKey(relatedCollection)}` })
+   }
+
+   const qb = knex.from(counts.as('relation_counts')).select('relation_key')
+   applyFieldFilter(qb, 'relation_count', filter)
+   return qb
+}
+
+/**
+ * Apply quantifier filters ($some, $every, $none, $count) on a has-many or many-to-many relation
+ */
+function applyRelationQuantifiers<S extends Schema>(
+   qb: Knex.QueryBuilder,
+   knex: Knex,
+   schema: S,
+   baseTable: TableNames<S>,
+   relationName: string,
+   relation: HasManyRelationDefinition | ManyToManyRelationDefinition,
+   filter: RelationQuantifierFilter<S, any>,
+   baseRef: string,
+) {
+   const relatedTable = relation.table as TableNames<S>
+   const baseKey = `${baseRef}.${getPrimaryKey(getCollection(schema, baseTable))}`
+
+   for (const [quantifier, operand] of Object.entries(filter)) {
+      if (operand === undefined) continue
+
+      if (quantifier === '$count') {
+         qb.whereIn(baseKey, relationCountSubquery(knex, schema, baseTable, relationName, relation, operand as FieldFilter))
+         continue
+      }
+
+      const { subquery, relationAlias } = relatedRecordsSubquery(knex, schema, relationName, relation, baseRef, baseKey)
+      if (quantifier === '$some') {
+         qb.whereExists(applyFilters(subquery, knex, schema, relatedTable, operand as FilterQuery<S, any>, relationAlias))
+      }
+      else if (quantifier === '$none') {
+         qb.whereNotExists(applyFilters(subquery, knex, schema, relatedTable, operand as FilterQuery<S, any>, relationAlias))
+      }
+      else if (Object.keys(operand as object).length > 0) {
+         // every related record matches when none of them is left out of the matching ones,
+         // so records the filter evaluates to NULL on fail it like with $some instead of passing `NOT (filter)`
+         const relatedPk = getPrimaryKey(getCollection(schema, relatedTable))
+         const matchingAlias = hash({ every: relationAlias })
+         const matching = knex(`${relatedTable} as ${matchingAlias}`).select(`${matchingAlias}.${relatedPk}`)
+         applyFilters(matching, knex, schema, relatedTable, operand as FilterQuery<S, any>, matchingAlias)
+         qb.whereNotExists(subquery.whereNotIn(`${relationAlias}.${relatedPk}`, matching))
+      }
+   }
+}
+
 /**
  * Apply relation filter (join and filter related table)
  */
@@ -64,27 +221,38 @@ function applyRelationFilter<S extends Schema, N extends TableNames<S>>(
    const relatedCollection = schema[relatedTable]
    if (!relatedCollection) throw new Error(`Related table "${relatedTable}" not found in schema`)
 
-   const basePk = getPrimaryKey(collection)
-   const relatedPk = getPrimaryKey(relatedCollection)
    const relationAlias = hash({ filter: relationName })
    const baseRef = baseTableAlias || baseTable
    const isSimple = isSimpleFieldFilter(nestedFilter)
 
+   if (isQuantifierFilter(nestedFilter)) {
+      if (!isHasMany(relation) && !isManyToMany(relation)) {
+         throw new Error(`Quantifier filters are only supported on has-many and many-to-many relations, "${relationName}" on table "${baseTable}" is ${relation.type}`)
+      }
+      applyRelationQuantifiers(qb, knex, schema, baseTable, relationName, relation, nestedFilter, baseRef)
+      return
+   }
+
    if (isBelongsTo(relation)) {
       if (isSimple) {
          const columnName = baseTableAlias ? `${baseTableAlias}.${relationName}` : relationName
-         applyFieldFilter(qb, columnName, nestedFilter as FieldFilter)
+         applyFieldFilter(qb, columnName, nestedFilter as FieldFilter, { tableName: baseTable, columnName: relationName })
          return
       }
-      qb.innerJoin(`${relatedTable} as ${relationAlias}`, `${relationAlias}.${relation.foreignKey}`, `${baseRef}.${basePk}`)
+      qb.innerJoin(`${relatedTable} as ${relationAlias}`, `${relationAlias}.${relation.foreignKey}`, `${baseRef}.${relationName}`)
+      applySoftDeleteScope(qb, relatedCollection, relationAlias)
       applyFilters(qb, knex, schema, relatedTable, nestedFilter as FilterQuery<S, any>, relationAlias)
       return
    }
 
+   const basePk = getPrimaryKey(collection)
+   const relatedPk = getPrimaryKey(relatedCollection)
+
    if (isHasOne(relation) || isHasMany(relation)) {
       qb.innerJoin(`${relatedTable} as ${relationAlias}`, `${relationAlias}.${relation.foreignKey}`, `${baseRef}.${basePk}`)
+      applySoftDeleteScope(qb, relatedCollection, relationAlias)
       if (isSimple) {
-         applyFieldFilter(qb, `${relationAlias}.${relatedPk}`, nestedFilter as FieldFilter)
+         applyFieldFilter(qb, `${relationAlias}.${relatedPk}`, nestedFilter as FieldFilter, { tableName: relatedTable, columnName: relatedPk })
       }
       else {
          applyFilters(qb, knex, schema, relatedTable, nestedFilter as FilterQuery<S, any>, relationAlias)
@@ -99,9 +267,10 @@ function applyRelationFilter<S extends Schema, N extends TableNames<S>>(
       const junctionAlias = hash({ junction: relationAlias })
       qb.innerJoin(`${through.table} as ${junctionAlias}`, `${junctionAlias}.${through.sourceFk}`, `${baseRef}.${basePk}`)
          .innerJoin(`${relatedTable} as ${relationAlias}`, `${relationAlias}.${relatedPk}`, `${junctionAlias}.${through.tableFk}`)
+      applySoftDeleteScope(qb, relatedCollection, relationAlias)
 
       if (isSimple) {
-         applyFieldFilter(qb, `${relationAlias}.${relatedPk}`, nestedFilter as FieldFilter)
+         applyFieldFilter(qb, `${relationAlias}.${relatedPk}`, nestedFilter as FieldFilter, { tableName: relatedTable, columnName: relatedPk })
       }
       else {
          applyFilters(qb, knex, schema, relatedTable, nestedFilter as FilterQuery<S, any>, relationAlias)
@@ -134,7 +303,7 @@ export function applyFilters<S extends Schema, N extends TableNames<S>>(
       }
       else if (columns[key]) {
          const columnName = tableAlias ? `${tableAlias}.${key}` : key
-         applyFieldFilter(qb, columnName, value)
+         applyFieldFilter(qb, columnName, value, { tableName, columnName: key })
       }
       else {
          throw new Error(`Unknown field "${key}" in filter for table "${tableName}"`)
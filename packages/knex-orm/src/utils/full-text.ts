@@ -0,0 +1,167 @@
+import type { Knex } from 'knex'
+import type { OperatorTarget } from './operators'
+
+type FullTextDialect = 'pg' | 'mysql' | 'sqlite'
+
+/**
+ * Get the full-text dialect of a client
+ */
+function getFullTextDialect(client: Knex.Client): FullTextDialect {
+   const name = String(client.config.client)
+   if (name === 'pg' || name === 'postgres' || name === 'postgresql') return 'pg'
+   if (name.includes('mysql')) return 'mysql'
+   return 'sqlite'
+}
+
+/**
+ * Get the name of the full-text index of a column (the FTS5 shadow table on SQLite)
+ */
+export function getFullTextIndexName(tableName: string, columnName: string) {
+   return `${tableName}_${columnName}${FULL_TEXT_SUFFIX}`
+}
+
+/** Suffix of the full-text index names */
+const FULL_TEXT_SUFFIX = '_fulltext'
+
+/**
+ * Get the name of the column a full-text index of a table was created for, if it's named like one
+ */
+function getFullTextIndexColumn(tableName: string, indexName: string) {
+   if (!indexName.startsWith(`${tableName}_`) || !indexName.endsWith(FULL_TEXT_SUFFIX)) return
+   return indexName.slice(tableName.length + 1, -FULL_TEXT_SUFFIX.length) || undefined
+}
+
+/**
+ * Split a search query into the words every match must contain
+ */
+function getSearchTerms(query: string) {
+   return query.match(/[\p{L}\p{N}_]+/gu) ?? []
+}
+
+/**
+ * Filter records whose column contains every word of the search query.
+ * Postgres uses the `simple` text search configuration (no stemming) to match SQLite and MySQL.
+ */
+export function whereFullTextSearch(builder: Knex.QueryBuilder, column: string, query: string, target?: OperatorTarget) {
+   const terms = getSearchTerms(query)
+   if (!terms.length) return builder
+
+   const dialect = getFullTextDialect(builder.client)
+   if (dialect === 'pg') {
+      return builder.whereRaw('to_tsvector(\'simple\', ??) @@ to_tsquery(\'simple\', ?)', [column, terms.join(' & ')])
+   }
+   if (dialect === 'mysql') {
+      return builder.whereRaw('match(??) against (? in boolean mode)', [column, terms.map(term => `+${term}`).join(' ')])
+   }
+
+   if (!target) throw new Error('$search requires a table column on SQLite')
+   // rows whose value matches are the rows the FTS5 table indexes with that same value
+   const indexName = getFullTextIndexName(target.tableName, target.columnName)
+   return builder.whereIn(column, qb => qb
+      .select(target.columnName)
+      .from(indexName)
+      .whereRaw('?? match ?', [indexName, terms.map(term => `"${term}"`).join(' ')]))
+}
+
+/**
+ * Check if the full-text index of a column exists
+ */
+export async function hasFullTextIndex(knex: Knex, tableName: string, columnName: string) {
+   const indexName = getFullTextIndexName(tableName, columnName)
+   const dialect = getFullTextDialect(knex.client)
+
+   if (dialect === 'sqlite') return knex.schema.hasTable(indexName)
+   if (dialect === 'pg') {
+      const rows = await knex('pg_class').select(knex.raw('1')).where({ relname: indexName, relkind: 'i' })
+      return rows.length > 0
+   }
+   const rows = await knex('information_schema.statistics')
+      .select(knex.raw('1'))
+      .whereRaw('table_schema = database()')
+      .where({ table_name: tableName, index_name: indexName })
+   return rows.length > 0
+}
+
+/**
+ * Create the full-text index of a column.
+ * SQLite gets an external content FTS5 table kept in sync with triggers.
+ */
+export async function createFullTextIndex(knex: Knex, tableName: string, columnName: string) {
+   const indexName = getFullTextIndexName(tableName, columnName)
+   const dialect = getFullTextDialect(knex.client)
+
+   if (dialect === 'pg') {
+      await knex.raw('create index if not exists ?? on ?? using gin (to_tsvector(\'simple\', ??))', [indexName, tableName, columnName])
+      return
+   }
+   if (dialect === 'mysql') {
+      await knex.raw('alter table ?? add fulltext index ?? (??)', [tableName, indexName, columnName])
+      return
+   }
+
+   const insert = knex.raw('insert into ??(rowid, ??) values (new.rowid, new.??);', [indexName, columnName, columnName])
+   const remove = knex.raw('insert into ??(??, rowid, ??) values (\'delete\', old.rowid, old.??);', [indexName, indexName, columnName, columnName])
+
+   await knex.raw('create virtual table ?? using fts5(??, content = ??)', [indexName, columnName, tableName])
+   await knex.raw(`create trigger ?? after insert on ?? begin ${insert} end`, [`${indexName}_insert`, tableName])
+   await knex.raw(`create trigger ?? after delete on ?? begin ${remove} end`, [`${indexName}_delete`, tableName])
+   await knex.raw(`create trigger ?? after update of ?? on ?? begin ${remove} ${insert} end`, [`${indexName}_update`, columnName, tableName])
+   // index the rows of existing tables
+   await knex.raw('insert into ??(??) values (\'rebuild\')', [indexName, indexName])
+}
+
+/**
+ * List the columns having a full-text index, including columns and tables the index outlived on SQLite.
+ * SQLite indexes are found from the content table of their FTS5 table, and the others from their name.
+ */
+export async function listFullTextIndexes(knex: Knex) {
+   const dialect = getFullTextDialect(knex.client)
+   let indexes: { table: string, index: string }[]
+
+   if (dialect === 'sqlite') {
+      const rows = await knex('sqlite_master').select('name', 'sql').where('type', 'table').whereRaw('lower(sql) like ?', ['%using fts5%']) as { name: string, sql: string }[]
+      indexes = rows.flatMap((row) => {
+         const content = /content = `((?:[^`]|``)+)`/.exec(row.sql)?.[1]
+         return content ? [{ table: content.replace(/``/g, '`'), index: row.name }] : []
+      })
+   }
+   else if (dialect === 'pg') {
+      indexes = await knex('pg_index')
+         .join('pg_class as i', 'i.oid', 'pg_index.indexrelid')
+         .join('pg_class as t', 't.oid', 'pg_index.indrelid')
+         .select('t.relname as table', 'i.relname as index')
+   }
+   else {
+      indexes = await knex('information_schema.statistics')
+         .distinct('table_name as table', 'index_name as index')
+         .whereRaw('table_schema = database()')
+         .where({ index_type: 'FULLTEXT' })
+   }
+
+   return indexes.flatMap(({ table, index }) => {
+      const column = getFullTextIndexColumn(table, index)
+      return column ? [{ table, column }] : []
+   })
+}
+
+/**
+ * Drop the full-text index of a column, with the FTS5 table and its sync triggers on SQLite
+ */
+export async function dropFullTextIndex(knex: Knex, tableName: string, columnName: string) {
+   const indexName = getFullTextIndexName(tableName, columnName)
+   const dialect = getFullTextDialect(knex.client)
+
+   if (dialect === 'pg') {
+      await knex.raw('drop index if exists ??', [indexName])
+      return
+   }
+   if (dialect === 'mysql') {
+      await knex.raw('alter table ?? drop index ??', [tableName, indexName])
+      return
+   }
+
+   for (const trigger of ['insert', 'delete', 'update']) {
+      await knex.raw('drop trigger if exists ??', [`${indexName}_${trigger}`])
+   }
+   await knex.raw('drop table if exists ??', [indexName])
+}
@@ -0,0 +1,46 @@
+import type { Knex } from 'knex'
+import type { LifecycleHooks } from '@/types/orm'
+
+export type LifecycleEvent = keyof LifecycleHooks
+
+interface HookEntry {
+   tableName?: string
+   hooks: LifecycleHooks<any, any>
+}
+
+/**
+ * Create a registry of record lifecycle hooks, run in registration order.
+ * Hooks registered without a table name run for every table.
+ */
+export function createHookRegistry() {
+   const entries: HookEntry[] = []
+
+   function add(tableName: string | undefined, hooks: LifecycleHooks<any, any>) {
+      const entry = { tableName, hooks }
+      entries.push(entry)
+      return () => {
+         const index = entries.indexOf(entry)
+         if (index !== -1) entries.splice(index, 1)
+      }
+   }
+
+   async function run(event: LifecycleEvent, tableName: string, trx: Knex.Transaction, context: Record<string, unknown>) {
+      for (const entry of [...entries]) {
+         const hook = entry.hooks[event] as ((context: unknown) => unknown) | undefined
+         if (!hook || (entry.tableName !== undefined && entry.tableName !== tableName)) continue
+         await hook({ ...context, tableName, trx })
+      }
+   }
+
+   return {
+      add,
+      run,
+   }
+}
+
+export type HookRegistry = ReturnType<typeof createHookRegistry>
+
+/** Options of the mutations run by an instance, passing its lifecycle hooks down to nested mutations */
+export interface HookOptions {
+   hooks?: HookRegistry
+}
@@ -0,0 +1,123 @@
+import type { Knex } from 'knex'
+
+/** Path to a value inside a JSON column (object keys and array indexes) */
+export type JsonPath = (string | number)[]
+
+type JsonDialect = 'pg' | 'mysql' | 'sqlite'
+
+/**
+ * Get the JSON dialect of the query builder's client
+ */
+function getJsonDialect(builder: Knex.QueryBuilder | Knex): JsonDialect {
+   const client = String(builder.client.config.client)
+   if (client === 'pg' || client === 'postgres' || client === 'postgresql') return 'pg'
+   if (client.includes('mysql')) return 'mysql'
+   return 'sqlite'
+}
+
+/**
+ * Convert a path to a SQLite / MySQL JSON path (e.g. `$."theme"."color"`)
+ */
+function toJsonPath(path: JsonPath) {
+   return `$${path.map(key => typeof key === 'number' ? `[${key}]` : `."${key.replace(/["\\]/g, '\\$&')}"`).join('')}`
+}
+
+/**
+ * Build a Postgres `->` / `->>` chain walking a path of a JSON column
+ */
+function pgPathChain(builder: Knex.QueryBuilder, column: string, path: JsonPath, asText: boolean) {
+   let sql = '??::jsonb'
+   const keys: string[] = []
+   path.forEach((key, index) => {
+      if (typeof key === 'number' && !Number.isSafeInteger(key)) throw new Error(`Invalid JSON array index: ${key}`)
+      // untyped parameters pick the object key form of the operator, so array indexes are integer literals
+      sql = `(${sql} ${asText && index === path.length - 1 ? '->>' : '->'} ${typeof key === 'number' ? key : '?'})`
+      if (typeof key === 'string') keys.push(key)
+   })
+   return builder.client.raw(sql, [column, ...keys])
+}
+
+/**
+ * Build an expression extracting the value at a path of a JSON column.
+ * Postgres extracts text, which is cast to match numeric and boolean operands.
+ */
+export function jsonPathExpression(builder: Knex.QueryBuilder, column: string, path: JsonPath, operand?: unknown): Knex.Raw {
+   const dialect = getJsonDialect(builder)
+
+   if (dialect === 'pg') {
+      const sample = Array.isArray(operand) ? operand[0] : operand
+      const cast = typeof sample === 'number' ? '::numeric' : typeof sample === 'boolean' ? '::boolean' : ''
+      return builder.client.raw(`(?)${cast}`, [pgPathChain(builder, column, path, true)])
+   }
+
+   if (dialect === 'mysql') return builder.client.raw('json_unquote(json_extract(??, ?))', [column, toJsonPath(path)])
+   return builder.client.raw('json_extract(??, ?)', [column, toJsonPath(path)])
+}
+
+/**
+ * Build an expression appending a value to the JSON array of a column, a NULL column counting as an empty array
+ */
+export function jsonArrayAppendExpression(knex: Knex, column: string, type: 'json' | 'jsonb', value: unknown): Knex.Raw {
+   const dialect = getJsonDialect(knex)
+   const element = JSON.stringify(value ?? null)
+
+   if (dialect === 'pg') return knex.raw(`(coalesce(??::jsonb, '[]'::jsonb) || jsonb_build_array(?::jsonb))::${type}`, [column, element])
+   if (dialect === 'mysql') return knex.raw('json_array_append(coalesce(??, json_array()), \'$\', cast(? as json))', [column, element])
+   return knex.raw('json_insert(coalesce(??, \'[]\'), \'$[#]\', json(?))', [column, element])
+}
+
+/**
+ * Filter records whose JSON column has a value (possibly null) at a key or path
+ */
+export function whereJsonHasKey(builder: Knex.QueryBuilder, column: string, key: string | JsonPath) {
+   const path = Array.isArray(key) ? key : [key]
+   const dialect = getJsonDialect(builder)
+
+   if (dialect === 'pg') return builder.whereRaw('? is not null', [pgPathChain(builder, column, path, false)])
+   if (dialect === 'mysql') return builder.whereRaw('json_contains_path(??, \'one\', ?)', [column, toJsonPath(path)])
+   return builder.whereRaw('json_type(??, ?) is not null', [column, toJsonPath(path)])
+}
+
+/**
+ * Filter records whose JSON column contains a JSON value (objects match subsets of keys, arrays subsets of elements)
+ */
+export function whereJsonContains(builder: Knex.QueryBuilder, column: string, value: unknown) {
+   const dialect = getJsonDialect(builder)
+   if (dialect === 'pg') return builder.whereRaw('??::jsonb @> ?::jsonb', [column, JSON.stringify(value)])
+   if (dialect === 'mysql') return builder.whereRaw('json_contains(??, ?)', [column, JSON.stringify(value)])
+   return whereSqliteJsonContains(builder, column, value, [])
+}
+
+/**
+ * Emulate JSON containment on SQLite, which has no containment operator, by checking every leaf value of the operand
+ */
+function whereSqliteJsonContains(builder: Knex.QueryBuilder, column: string, value: unknown, path: JsonPath): Knex.QueryBuilder {
+   const jsonPath = toJsonPath(path)
+
+   if (Array.isArray(value)) {
+      for (const element of value) {
+         if (element !== null && typeof element === 'object') {
+            throw new Error('$containsJson only supports scalar array elements on SQLite')
+         }
+         if (typeof element === 'boolean' || element === null) {
+            builder.whereRaw('exists (select 1 from json_each(??, ?) where type = ?)', [column, jsonPath, String(element)])
+         }
+         else {
+            builder.whereRaw('exists (select 1 from json_each(??, ?) where value = ?)', [column, jsonPath, element])
+         }
+      }
+      return builder
+   }
+
+   if (value !== null && typeof value === 'object') {
+      for (const [key, nested] of Object.entries(value)) {
+         whereSqliteJsonContains(builder, column, nested, [...path, key])
+      }
+      return builder
+   }
+
+   if (typeof value === 'boolean' || value === null) {
+      return builder.whereRaw('json_type(??, ?) = ?', [column, jsonPath, String(value)])
+   }
+   return builder.whereRaw('json_extract(??, ?) = ?', [column, jsonPath, value as Knex.Value])
+}
@@ -4,6 +4,8 @@ import type { RelationAction } from '@/types/relations'
 import type { CollectionDefinition, Schema } from '@/types/schema'
 import { getColumns } from './collections'
 import { getDataTypeAfterCreate, getDataTypeBeforeCreate, getDataTypeCreator } from './data-types'
+import { createFullTextIndex, dropFullTextIndex, hasFullTextIndex, listFullTextIndexes } from './full-text'
+import { resolveFunctionHelper } from './misc'
 
 export type ColumnDefinitionWithReferences = ColumnDefinition & {
    references?: {
@@ -27,6 +29,8 @@ export type SchemaOperation = { type: 'createTable', tableName: string, collecti
       column: string
       definition: ColumnDefinitionWithReferences
    }
+   | { type: 'createFullTextIndex', table: string, column: string }
+   | { type: 'dropFullTextIndex', table: string, column: string }
 
 export interface MigrationResult {
    operations: SchemaOperation[]
@@ -52,7 +56,7 @@ function applyColumnDefinition(knex: Knex, builder: Knex.CreateTableBuilder | Kn
    if (definition.unsigned) column.unsigned()
 
    if (definition.default !== undefined) {
-      column.defaultTo(getDefaultValue(knex, definition.default))
+      column.defaultTo(resolveFunctionHelper(knex, definition.default))
    }
 
    if (definition.references) {
@@ -65,26 +69,6 @@ function applyColumnDefinition(knex: Knex, builder: Knex.CreateTableBuilder | Kn
    }
 }
 
-/**
- * Check if a value is a Knex function helper
- */
-function isFunctionHelper(knex: Knex, value: unknown): value is keyof Knex.FunctionHelper {
-   return typeof value === 'string' && value in knex.fn
-}
-
-/**
- * Get the default value, resolving function helpers if needed
- */
-function getDefaultValue<T>(knex: Knex, value: T) {
-   if (typeof value === 'string') {
-      const fnMatch = value.match(/^\{(\w+)\}$/)?.[1]
-      if (fnMatch && isFunctionHelper(knex, fnMatch)) {
-         return knex.fn[fnMatch](null as never)
-      }
-   }
-   return value
-}
-
 /**
  * Get column information for a table, returning undefined on error
  */
@@ -111,6 +95,9 @@ export async function diffSchema(
 
       if (!exists) {
          operations.push({ type: 'createTable', tableName, collection })
+         for (const [name, definition] of Object.entries(getColumns(schema, collection))) {
+            if (definition.fullText) operations.push({ type: 'createFullTextIndex', table: tableName, column: name })
+         }
          continue
       }
 
@@ -129,6 +116,7 @@ export async function diffSchema(
                column: name,
                definition,
             })
+            if (definition.fullText) operations.push({ type: 'createFullTextIndex', table: tableName, column: name })
             continue
          }
 
@@ -144,9 +132,20 @@ export async function diffSchema(
                definition,
             })
          }
+
+         if (definition.fullText && !(await hasFullTextIndex(knex, tableName, name))) {
+            operations.push({ type: 'createFullTextIndex', table: tableName, column: name })
+         }
       }
    }
 
+   // indexes of columns no longer declared with `fullText`, or no longer declared at all
+   for (const { table, column } of await listFullTextIndexes(knex)) {
+      const collection = schema[table]
+      const definition = collection ? getColumns(schema, collection, { includeBelongsTo: true })[column] : undefined
+      if (!definition?.fullText) operations.push({ type: 'dropFullTextIndex', table, column })
+   }
+
    return operations
 }
 
@@ -167,10 +166,14 @@ async function createTable(knex: Knex, operation: SchemaOperation & { type: 'cre
       }
    }
 
+   const primaryKeys = Object.keys(columns).filter(column => columns[column].primary)
+
    await knex.schema.createTable(operation.tableName, (table) => {
       for (const [column, definition] of Object.entries(columns)) {
-         applyColumnDefinition(knex, table, operation.tableName, column, definition)
+         // composite primary keys are declared as a table constraint
+         applyColumnDefinition(knex, table, operation.tableName, column, primaryKeys.length > 1 ? { ...definition, primary: false } : definition)
       }
+      if (primaryKeys.length > 1) table.primary(primaryKeys)
    })
 
    for (const [column, definition] of Object.entries(columns)) {
@@ -200,6 +203,10 @@ export function applyOperation(knex: Knex, operation: SchemaOperation, schema?:
       case 'addColumn':
       case 'alterColumn':
          return alterTable(knex, operation)
+      case 'createFullTextIndex':
+         return createFullTextIndex(knex, operation.table, operation.column)
+      case 'dropFullTextIndex':
+         return dropFullTextIndex(knex, operation.table, operation.column)
       default: {
          const _exhaustive: never = operation
          throw new Error(`Unsupported operation: ${(_exhaustive as { type: string }).type}`)
@@ -29,3 +29,23 @@ export function clientSupportsReturning(knex: Knex) {
 export function isNonNullish<T>(value: T): value is NonNullable<T> {
    return value !== null && value !== undefined
 }
+
+/**
+ * Check if a value is a Knex function helper
+ */
+function isFunctionHelper(knex: Knex, value: unknown): value is keyof Knex.FunctionHelper {
+   return typeof value === 'string' && value in knex.fn
+}
+
+/**
+ * Resolve a function helper placeholder (`{now}`) to its Knex expression, returning other values as is
+ */
+export function resolveFunctionHelper<T>(knex: Knex, value: T) {
+   if (typeof value === 'string') {
+      const fnMatch = value.match(/^\{(\w+)\}$/)?.[1]
+      if (fnMatch && isFunctionHelper(knex, fnMatch)) {
+         return knex.fn[fnMatch](null as never)
+      }
+   }
+   return value
+}
@@ -1,12 +1,13 @@
 import type { Knex } from 'knex'
+import type { HookOptions } from './hooks'
 import type { MutationOptions } from '@/types/orm'
 import type { FilterQuery } from '@/types/query'
 import type { RelationDefinition } from '@/types/relations'
-import type { CollectionDefinition, Schema, TableItem, TableItemInput, TableNames, TablePrimaryKeyValue } from '@/types/schema'
+import type { CollectionDefinition, Schema, TableItem, TableItemInput, TableItemPatch, TableNames, TablePrimaryKeyValue } from '@/types/schema'
 import { getPrimaryKey, getRelations } from './collections'
 import { isNonNullish, toArray } from './misc'
-import { create, createOne, findOne, remove, updateOne } from './queries'
-import { isManyToMany } from './relations'
+import { create, createOne, find, findOne, remove, update, updateOne } from './queries'
+import { isHasOne, isManyToMany } from './relations'
 
 interface RelationPayload {
    name: string
@@ -14,6 +15,18 @@ interface RelationPayload {
    value: unknown
 }
 
+const RELATION_MUTATION_VERBS = ['$set', '$disconnect', '$delete', '$connect'] as const
+
+type RelationMutation = Partial<Record<(typeof RELATION_MUTATION_VERBS)[number], unknown>>
+
+type RelatedKey = string | number
+
+interface RelatedEntry {
+   key: RelatedKey
+   /** Junction columns of a many-to-many relation */
+   pivot: Record<string, unknown>
+}
+
 /**
  * Partition record into scalar values and relations
  */
@@ -39,7 +52,7 @@ export function partitionRecord(collection: CollectionDefinition, record: Record
 /**
  * Upsert a table record (create if not exists, update if exists).
  */
-export async function upsertTableRecord<S extends Schema, N extends TableNames<S>>(knex: Knex, schema: S, tableName: N, payload: TableItemInput<S, N>, options: MutationOptions, tablePk: string): Promise<TableItem<S, N>> {
+export async function upsertTableRecord<S extends Schema, N extends TableNames<S>>(knex: Knex, schema: S, tableName: N, payload: TableItemInput<S, N>, options: MutationOptions & HookOptions, tablePk: string): Promise<TableItem<S, N>> {
    const payloadRecord = payload as Record<string, unknown>
    const primaryKeyValue = payloadRecord[tablePk] as TablePrimaryKeyValue<S, N> | undefined
 
@@ -48,7 +61,7 @@ export async function upsertTableRecord<S extends Schema, N extends TableNames<S
       const existing = await findOne(knex, schema, tableName, primaryKeyValue, { trx: options.trx })
 
       if (existing) {
-         await updateOne(knex, schema, tableName, filters, payload, options)
+         await updateOne(knex, schema, tableName, filters, payload as TableItemPatch<S, N>, options)
          const updated = await findOne(knex, schema, tableName, primaryKeyValue, { trx: options.trx })
          if (!updated) {
             throw new Error(`Unable to locate ${tableName} record after update`)
@@ -68,13 +81,13 @@ export async function handleBelongsToRelations<S extends Schema>(
    schema: S,
    relations: RelationPayload[],
    scalar: Record<string, unknown>,
-   options: MutationOptions,
+   options: MutationOptions & HookOptions,
 ) {
    for (const relation of relations) {
-      if (relation.definition.type !== 'belongs-to' || !relation.value) continue
+      if (relation.definition.type !== 'belongs-to' || relation.value === undefined) continue
 
       const valueType = typeof relation.value
-      if (valueType === 'number' || valueType === 'string') {
+      if (relation.value === null || valueType === 'number' || valueType === 'string') {
          scalar[relation.name] = relation.value
          continue
       }
@@ -98,7 +111,7 @@ export async function handleChildRelationsOnCreate<S extends Schema>(
    schema: S,
    relations: RelationPayload[],
    parentRecord: Record<string, unknown>,
-   options: MutationOptions,
+   options: MutationOptions & HookOptions,
    collection: CollectionDefinition,
 ) {
    const parentPk = getPrimaryKey(collection)
@@ -108,6 +121,11 @@ export async function handleChildRelationsOnCreate<S extends Schema>(
    for (const relation of relations) {
       if (relation.definition.type === 'belongs-to' || !relation.value) continue
 
+      if (isRelationMutation(relation.value)) {
+         await applyRelationMutation(knex, schema, relation.definition, parentPkValue, relation.value, options)
+         continue
+      }
+
       const tableName = relation.definition.table
       const payloads = toArray(relation.value) as TableItemInput<S, TableNames<S>>[]
 
@@ -118,17 +136,18 @@ export async function handleChildRelationsOnCreate<S extends Schema>(
          const tableMeta = schema[tableName]
          const tablePk = getPrimaryKey(tableMeta)
 
+         const entries = payloads.map(splitPivot)
          const related = await Promise.all(
-            payloads.map((payload) => {
+            entries.map(({ payload }) => {
                return upsertTableRecord(knex, schema, tableName, payload, options, tablePk)
             }),
          )
 
          const junctionRows = related
-            .map((record) => {
+            .map((record, index) => {
                const fkValue = record[tablePk as keyof typeof record]
                return fkValue !== undefined
-                  ? { [through.sourceFk]: parentPkValue, [through.tableFk]: fkValue } as TableItemInput<S, TableNames<S>>
+                  ? { ...entries[index]!.pivot, [through.sourceFk]: parentPkValue, [through.tableFk]: fkValue } as TableItemInput<S, TableNames<S>>
                   : undefined
             })
             .filter(isNonNullish)
@@ -140,8 +159,7 @@ export async function handleChildRelationsOnCreate<S extends Schema>(
       }
 
       for (const payload of payloads) {
-         const foreignKey = relation.definition.foreignKey as keyof TableItem<S, TableNames<S>>
-         payload[foreignKey] = parentPkValue as any
+         (payload as Record<string, unknown>)[relation.definition.foreignKey] = parentPkValue
          await createOne(knex, schema, tableName, payload, options)
       }
    }
@@ -155,7 +173,7 @@ export async function handleChildRelationsOnUpdate<S extends Schema>(
    schema: S,
    relations: RelationPayload[],
    parentRecord: Record<string, unknown>,
-   options: MutationOptions,
+   options: MutationOptions & HookOptions,
    collection: CollectionDefinition,
 ) {
    const parentPk = getPrimaryKey(collection)
@@ -165,6 +183,11 @@ export async function handleChildRelationsOnUpdate<S extends Schema>(
    for (const relation of relations) {
       if (relation.definition.type === 'belongs-to' || !relation.value) continue
 
+      if (isRelationMutation(relation.value)) {
+         await applyRelationMutation(knex, schema, relation.definition, parentPkValue, relation.value, options)
+         continue
+      }
+
       const tableName = relation.definition.table
       const tableMeta = schema[tableName]
       const tablePk = getPrimaryKey(tableMeta)
@@ -177,17 +200,18 @@ export async function handleChildRelationsOnUpdate<S extends Schema>(
          const filters = { [through.sourceFk]: { $eq: parentPkValue } } as unknown as FilterQuery<S, TableNames<S>>
          await remove(knex, schema, through.table, filters, options)
 
+         const entries = payloads.map(splitPivot)
          const related = await Promise.all(
-            payloads.map((payload) => {
+            entries.map(({ payload }) => {
                return upsertTableRecord(knex, schema, tableName, payload, options, tablePk)
             }),
          )
 
          const junctionRows = related
-            .map((record) => {
+            .map((record, index) => {
                const fkValue = record[tablePk as keyof typeof record]
                return fkValue !== undefined
-                  ? { [through.sourceFk]: parentPkValue, [through.tableFk]: fkValue } as TableItemInput<S, TableNames<S>>
+                  ? { ...entries[index]!.pivot, [through.sourceFk]: parentPkValue, [through.tableFk]: fkValue } as TableItemInput<S, TableNames<S>>
                   : undefined
             })
             .filter(isNonNullish)
@@ -198,14 +222,13 @@ export async function handleChildRelationsOnUpdate<S extends Schema>(
          continue
       }
 
-      const foreignKey = relation.definition.foreignKey as keyof TableItem<S, TableNames<S>>
       for (const payload of payloads) {
-         payload[foreignKey] = parentPkValue as any
          const payloadRecord = payload as Record<string, unknown>
+         payloadRecord[relation.definition.foreignKey] = parentPkValue
 
          if (payloadRecord[tablePk] !== undefined) {
             const filters = { [tablePk]: { $eq: payloadRecord[tablePk] } } as unknown as FilterQuery<S, TableNames<S>>
-            await updateOne(knex, schema, tableName, filters, payload, options)
+            await updateOne(knex, schema, tableName, filters, payload as TableItemPatch<S, TableNames<S>>, options)
          }
          else {
             await createOne(knex, schema, tableName, payload, options)
@@ -213,3 +236,189 @@ export async function handleChildRelationsOnUpdate<S extends Schema>(
       }
    }
 }
+
+/**
+ * Split the junction columns (`$pivot`) off a many-to-many payload
+ */
+function splitPivot<S extends Schema>(input: TableItemInput<S, TableNames<S>>) {
+   const { $pivot, ...payload } = input as Record<string, unknown>
+   return { payload: payload as TableItemInput<S, TableNames<S>>, pivot: ($pivot ?? {}) as Record<string, unknown> }
+}
+
+/**
+ * Check if a relation value holds nested operations (`{ $connect: [1] }`) rather than payloads
+ */
+export function isRelationMutation(value: unknown): value is RelationMutation {
+   if (!value || typeof value !== 'object' || Array.isArray(value)) return false
+   const keys = Object.keys(value)
+   return keys.length > 0 && keys.every(key => (RELATION_MUTATION_VERBS as readonly string[]).includes(key))
+}
+
+/**
+ * Apply the nested operations of a child relation, in the order `$set`, `$disconnect`, `$delete`, `$connect`.
+ * Has-one relations hold a single record: connecting one replaces the current one.
+ */
+async function applyRelationMutation<S extends Schema>(
+   knex: Knex,
+   schema: S,
+   definition: RelationDefinition,
+   parentPkValue: unknown,
+   mutation: RelationMutation,
+   options: MutationOptions & HookOptions,
+) {
+   const tablePk = getPrimaryKey(schema[definition.table])
+   const single = isHasOne(definition)
+
+   if (mutation.$set !== undefined || (single && mutation.$connect !== undefined)) {
+      const values = single ? [mutation.$connect] : toArray(mutation.$set)
+      const entries = await resolveRelatedKeys(knex, schema, definition, parentPkValue, values, options)
+      await disconnectRelated(knex, schema, definition, parentPkValue, { $nin: entries.map(entry => entry.key) }, options)
+      await connectRelated(knex, schema, definition, parentPkValue, entries, options)
+   }
+
+   if (mutation.$disconnect) {
+      await disconnectRelated(knex, schema, definition, parentPkValue, single ? undefined : { $in: toArray(mutation.$disconnect) }, options)
+   }
+
+   if (mutation.$delete) {
+      const where = single
+         ? {}
+         : Array.isArray(mutation.$delete) ? { [tablePk]: { $in: mutation.$delete } } : (mutation.$delete as { where: Record<string, unknown> }).where
+      await deleteRelated(knex, schema, definition, parentPkValue, where, options)
+   }
+
+   if (mutation.$connect !== undefined && !single) {
+      const entries = await resolveRelatedKeys(knex, schema, definition, parentPkValue, toArray(mutation.$connect), options)
+      await connectRelated(knex, schema, definition, parentPkValue, entries, options)
+   }
+}
+
+/**
+ * Get the primary keys (and junction columns) of related records given by primary key or payload, upserting the payloads
+ */
+async function resolveRelatedKeys<S extends Schema>(
+   knex: Knex,
+   schema: S,
+   definition: RelationDefinition,
+   parentPkValue: unknown,
+   values: unknown[],
+   options: MutationOptions & HookOptions,
+) {
+   const tablePk = getPrimaryKey(schema[definition.table])
+   const entries: RelatedEntry[] = []
+
+   for (const value of values) {
+      if (typeof value === 'string' || typeof value === 'number') {
+         entries.push({ key: value, pivot: {} })
+         continue
+      }
+
+      const { payload, pivot } = splitPivot(value as TableItemInput<S, TableNames<S>>)
+      if (!isManyToMany(definition)) (payload as Record<string, unknown>)[definition.foreignKey] = parentPkValue
+      const record = await upsertTableRecord(knex, schema, definition.table, payload, options, tablePk)
+      entries.push({ key: (record as Record<string, unknown>)[tablePk] as RelatedKey, pivot })
+   }
+
+   return entries
+}
+
+/**
+ * Attach related records to the parent record, updating the junction columns of the records already attached
+ */
+async function connectRelated<S extends Schema>(
+   knex: Knex,
+   schema: S,
+   definition: RelationDefinition,
+   parentPkValue: unknown,
+   entries: RelatedEntry[],
+   options: MutationOptions & HookOptions,
+) {
+   if (!entries.length) return
+   const keys = entries.map(entry => entry.key)
+
+   if (isManyToMany(definition)) {
+      const { through } = definition
+      const filters = { [through.sourceFk]: { $eq: parentPkValue }, [through.tableFk]: { $in: keys } } as unknown as FilterQuery<S, TableNames<S>>
+      const existing = await find(knex, schema, through.table, { where: filters, trx: options.trx }) as Record<string, unknown>[]
+      const connected = new Set(existing.map(row => String(row[through.tableFk])))
+      const junctionRows: TableItemInput<S, TableNames<S>>[] = []
+
+      for (const { key, pivot } of entries) {
+         if (connected.has(String(key))) {
+            if (!Object.keys(pivot).length) continue
+            const junctionFilters = { [through.sourceFk]: { $eq: parentPkValue }, [through.tableFk]: { $eq: key } } as unknown as FilterQuery<S, TableNames<S>>
+            await update(knex, schema, through.table, junctionFilters, pivot as TableItemPatch<S, TableNames<S>>, options)
+            continue
+         }
+
+         connected.add(String(key))
+         junctionRows.push({ ...pivot, [through.sourceFk]: parentPkValue, [through.tableFk]: key } as TableItemInput<S, TableNames<S>>)
+      }
+
+      if (junctionRows.length > 0) {
+         await create(knex, schema, through.table, junctionRows, options)
+      }
+      return
+   }
+
+   const tablePk = getPrimaryKey(schema[definition.table])
+   const filters = { [tablePk]: { $in: keys } } as unknown as FilterQuery<S, TableNames<S>>
+   await update(knex, schema, definition.table, filters, { [definition.foreignKey]: parentPkValue } as TableItemPatch<S, TableNames<S>>, options)
+}
+
+/**
+ * Detach the related records of the parent record matching a primary key filter (all of them when omitted)
+ */
+async function disconnectRelated<S extends Schema>(
+   knex: Knex,
+   schema: S,
+   definition: RelationDefinition,
+   parentPkValue: unknown,
+   keyFilter: { $in: unknown[] } | { $nin: unknown[] } | undefined,
+   options: MutationOptions & HookOptions,
+) {
+   if (isManyToMany(definition)) {
+      const { through } = definition
+      const filters = { [through.sourceFk]: { $eq: parentPkValue }, ...keyFilter && { [through.tableFk]: keyFilter } } as unknown as FilterQuery<S, TableNames<S>>
+      await remove(knex, schema, through.table, filters, options)
+      return
+   }
+
+   const tablePk = getPrimaryKey(schema[definition.table])
+   const filters = { [definition.foreignKey]: { $eq: parentPkValue }, ...keyFilter && { [tablePk]: keyFilter } } as unknown as FilterQuery<S, TableNames<S>>
+   await update(knex, schema, definition.table, filters, { [definition.foreignKey]: null } as TableItemPatch<S, TableNames<S>>, options)
+}
+
+/**
+ * Delete the related records of the parent record matching a filter, with their junction rows
+ */
+async function deleteRelated<S extends Schema>(
+   knex: Knex,
+   schema: S,
+   definition: RelationDefinition,
+   parentPkValue: unknown,
+   where: Record<string, unknown>,
+   options: MutationOptions & HookOptions,
+) {
+   const tablePk = getPrimaryKey(schema[definition.table])
+
+   if (isManyToMany(definition)) {
+      const { through } = definition
+      const junctionFilters = { [through.sourceFk]: { $eq: parentPkValue } } as unknown as FilterQuery<S, TableNames<S>>
+      const junctionRows = await find(knex, schema, through.table, { where: junctionFilters, trx: options.trx }) as Record<string, unknown>[]
+      if (!junctionRows.length) return
+
+      const relatedFilters = { $and: [{ [tablePk]: { $in: junctionRows.map(row => row[through.tableFk]) } }, where] } as unknown as FilterQuery<S, TableNames<S>>
+      const related = await find(knex, schema, definition.table, { where: relatedFilters, trx: options.trx }) as Record<string, unknown>[]
+      if (!related.length) return
+
+      // junction rows of other parents reference the deleted records too
+      const keys = related.map(row => row[tablePk])
+      await remove(knex, schema, through.table, { [through.tableFk]: { $in: keys } } as unknown as FilterQuery<S, TableNames<S>>, options)
+      await remove(knex, schema, definition.table, { [tablePk]: { $in: keys } } as unknown as FilterQuery<S, TableNames<S>>, options)
+      return
+   }
+
+   const filters = { $and: [{ [definition.foreignKey]: { $eq: parentPkValue } }, where] } as unknown as FilterQuery<S, TableNames<S>>
+   await remove(knex, schema, definition.table, filters, options)
+}
@@ -1,4 +1,100 @@
 import type { Knex } from 'knex'
+import type { z } from 'zod'
+import type { DataTypes } from './data-types'
+import type { JsonPath } from './json'
+import type { ColumnDefinition } from '@/types/columns'
+import { globalCache } from './cache'
+import { whereFullTextSearch } from './full-text'
+import { whereJsonContains, whereJsonHasKey } from './json'
+import { regexToGlobPatterns } from './regex'
+
+interface SqliteFunctionConnection {
+   function: (name: string, options: { deterministic: boolean }, fn: (...args: unknown[]) => unknown) => unknown
+}
+
+/** The public event API of the tarn pool behind a Knex client */
+interface ConnectionPool {
+   on: (event: 'acquireSuccess', listener: (eventId: number, connection: SqliteFunctionConnection) => void) => void
+}
+
+/** better-sqlite3 connections the REGEXP function is defined on */
+const regexpConnections = new WeakSet<SqliteFunctionConnection>()
+
+/**
+ * Compare the lowercased column with a lowercased LIKE pattern, as LIKE is case-insensitive on SQLite but not on Postgres
+ */
+function whereILike(builder: Knex.QueryBuilder, column: string, pattern: string) {
+   return builder.whereRaw('lower(??) like ?', [column, pattern.toLowerCase()])
+}
+
+/**
+ * Filter a column on a list of values.
+ * Knex compiles the values of `whereIn` before its column, which misplaces the bindings of raw expressions (like JSON paths).
+ */
+function whereIn(builder: Knex.QueryBuilder, column: string, values: unknown[], not = false) {
+   if (typeof column === 'string' || !values.length) {
+      return not ? builder.whereNotIn(column, values as Knex.Value[]) : builder.whereIn(column, values as Knex.Value[])
+   }
+   return builder.whereRaw(`? ${not ? 'not in' : 'in'} (${values.map(() => '?').join(', ')})`, [column, ...values as Knex.Value[]])
+}
+
+/**
+ * Match a column against a regular expression with the driver's native operator (case-sensitive)
+ */
+function whereRegex(builder: Knex.QueryBuilder, column: string, pattern: string) {
+   const client = builder.client.config.client
+   if (client === 'pg' || client === 'postgres' || client === 'postgresql') return builder.where(column, '~', pattern)
+   if (client === 'mysql' || client === 'mysql2') return builder.whereRaw('regexp_like(??, ?, \'c\')', [column, pattern])
+   if (client === 'sqlite3') {
+      const globs = regexToGlobPatterns(pattern)
+      return builder.where(inner => globs.forEach(glob => inner.orWhereRaw('?? glob ?', [column, glob])))
+   }
+   return builder.whereRaw('?? regexp ?', [column, pattern])
+}
+
+/**
+ * Define the REGEXP function SQLite leaves to the host application on a better-sqlite3 connection, once
+ */
+function defineRegexpFunction(connection: SqliteFunctionConnection) {
+   if (regexpConnections.has(connection)) return
+   regexpConnections.add(connection)
+
+   connection.function('regexp', { deterministic: true }, (pattern, value) => {
+      return value == null ? null : Number(new RegExp(String(pattern)).test(String(value)))
+   })
+}
+
+/**
+ * Add the REGEXP function to the `afterCreate` hook of a better-sqlite3 Knex configuration's pool
+ */
+export function withRegexpFunction(knexConfig: Knex.Config): Knex.Config {
+   if (knexConfig.client !== 'better-sqlite3') return knexConfig
+
+   const afterCreate = knexConfig.pool?.afterCreate as ((connection: unknown, done: (error?: Error) => void) => void) | undefined
+   return {
+      ...knexConfig,
+      pool: {
+         ...knexConfig.pool,
+         afterCreate: (connection: SqliteFunctionConnection, done: (error?: Error) => void) => {
+            defineRegexpFunction(connection)
+            if (afterCreate) afterCreate(connection, done)
+            else done()
+         },
+      },
+   }
+}
+
+/**
+ * Define the REGEXP function on the connections of a caller-supplied better-sqlite3 Knex instance,
+ * whose pool already exists, before they run their next query.
+ * node-sqlite3 can't define functions, so `$regex` is translated to GLOB patterns there instead.
+ */
+export function registerRegexpFunction(knexInstance: Knex) {
+   if (knexInstance.client.config.client !== 'better-sqlite3') return
+
+   const pool = knexInstance.client.pool as ConnectionPool | undefined
+   pool?.on('acquireSuccess', (_eventId, connection) => defineRegexpFunction(connection))
+}
 
 /**
  * SQL Operators
@@ -16,26 +112,102 @@ export const OPERATORS = {
    $nstartsWith: (builder, column, value: string) => builder.not.whereLike(column, `${value}%`),
    $endsWith: (builder, column, value: string) => builder.whereLike(column, `%${value}`),
    $nendsWith: (builder, column, value: string) => builder.not.whereLike(column, `%${value}`),
-   $in: (builder, column, value: any[]) => Array.isArray(value) ? builder.whereIn(column, value) : builder,
-   $nin: (builder, column, value: any[]) => Array.isArray(value) ? builder.whereNotIn(column, value) : builder,
+   $in: (builder, column, value: any[]) => Array.isArray(value) ? whereIn(builder, column, value) : builder,
+   $nin: (builder, column, value: any[]) => Array.isArray(value) ? whereIn(builder, column, value, true) : builder,
    $between: (builder, column, value: [any, any]) => Array.isArray(value) && value.length === 2 ? builder.whereBetween(column, value) : builder,
    $nbetween: (builder, column, value: [any, any]) => Array.isArray(value) && value.length === 2 ? builder.whereNotBetween(column, value) : builder,
    $null: (builder, column, _value: undefined) => builder.whereNull(column),
    $nnull: (builder, column, _value: undefined) => builder.whereNotNull(column),
    $like: (builder, column, value: string) => builder.whereLike(column, value),
    $nlike: (builder, column, value: string) => builder.not.whereLike(column, value),
+   $icontains: (builder, column, value: string) => whereILike(builder, column, `%${value}%`),
+   $istartsWith: (builder, column, value: string) => whereILike(builder, column, `${value}%`),
+   $iendsWith: (builder, column, value: string) => whereILike(builder, column, `%${value}`),
+   $ilike: (builder, column, value: string) => whereILike(builder, column, value),
+   $regex: (builder, column, value: string) => whereRegex(builder, column, value),
+   $hasKey: (builder, column, value: string | JsonPath) => whereJsonHasKey(builder, column, value),
+   $containsJson: (builder, column, value: unknown) => whereJsonContains(builder, column, value),
+   $search: (builder, column, value: string, target) => whereFullTextSearch(builder, column, value, target),
 } satisfies OperatorsDefinition
 
 interface OperatorsDefinition {
-   [key: string]: (builder: Knex.QueryBuilder, column: string, value: any | unknown) => Knex.QueryBuilder
+   [key: string]: (builder: Knex.QueryBuilder, column: string, value: any | unknown, target?: OperatorTarget) => Knex.QueryBuilder
+}
+
+/** Table column an operator is applied to (absent when filtering a computed expression) */
+export interface OperatorTarget {
+   tableName: string
+   columnName: string
+}
+
+export interface OperatorDefinition {
+   /** Apply the operator to the query builder */
+   apply: (builder: Knex.QueryBuilder, column: string, value: any, target?: OperatorTarget) => Knex.QueryBuilder
+   /** Create the operand schema (defaults to the column value schema) */
+   validate?: (obj: { z: typeof z, base: z.ZodTypeAny, columnName: string, definition: ColumnDefinition, tableName: string }) => z.ZodTypeAny
+   /** Data types the operator is available on (defaults to every data type) */
+   dataTypes?: DataTypes[]
+}
+
+const CUSTOM_OPERATORS: Record<string, OperatorDefinition> = {}
+
+/**
+ * Define a custom operator.
+ * Type its operand by augmenting {@link OperatorsMap}.
+ */
+export function defineOperator(name: `$${string}`, definition: OperatorDefinition) {
+   if (name in OPERATORS) throw new Error(`Operator "${name}" is built in and can't be redefined`)
+   CUSTOM_OPERATORS[name] = definition
+   // filter schemas are cached with the operators available when they were built
+   globalCache.clear()
+}
+
+/**
+ * Get the function applying an operator to the query builder.
+ */
+export function getOperator(name: string): OperatorsDefinition[string] | undefined {
+   return OPERATORS[name as keyof typeof OPERATORS] ?? CUSTOM_OPERATORS[name]?.apply
 }
 
-export type InferOperatorExpectedValue<T extends Operator, TT = any> = T extends keyof typeof OPERATORS ? Parameters<(typeof OPERATORS)[T]>[2] extends infer U
-   ? U extends [any, any] ? [TT, TT]
-      : U extends any[] ? TT[]
-         : U extends undefined ? boolean
-            : TT
-   : never
-   : never
+/**
+ * Check if a key is a built-in or custom operator.
+ */
+export function isOperator(name: string): name is Operator {
+   return name in OPERATORS || name in CUSTOM_OPERATORS
+}
+
+/**
+ * Get the definition of a custom operator.
+ */
+export function getCustomOperator(name: string): OperatorDefinition | undefined {
+   return CUSTOM_OPERATORS[name]
+}
+
+/**
+ * Get the custom operators available on a data type.
+ */
+export function getCustomOperators(type: DataTypes) {
+   return Object.keys(CUSTOM_OPERATORS).filter((name) => {
+      const { dataTypes } = CUSTOM_OPERATORS[name]!
+      return !dataTypes || dataTypes.includes(type)
+   }) as Operator[]
+}
+
+type BuiltInOperatorsMap<T> = {
+   [K in keyof typeof OPERATORS]: Parameters<(typeof OPERATORS)[K]>[2] extends infer U
+      ? U extends [any, any] ? [T, T]
+         : U extends any[] ? T[]
+            : U extends undefined ? boolean
+               : T
+      : never
+}
+
+/**
+ * Operand type of each operator for a column of type `T`.
+ * Augment it to type operators added with {@link defineOperator}.
+ */
+export interface OperatorsMap<T = any> extends BuiltInOperatorsMap<T> {}
+
+export type InferOperatorExpectedValue<T extends Operator, TT = any> = OperatorsMap<TT>[T]
 
-export type Operator = keyof typeof OPERATORS
+export type Operator = keyof OperatorsMap
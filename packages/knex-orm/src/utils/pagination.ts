@@ -0,0 +1,82 @@
+import type { Knex } from 'knex'
+import { Buffer } from 'node:buffer'
+
+export interface KeysetColumn {
+   column: string
+   direction: 'asc' | 'desc'
+   /** Whether NULL values sort after every other value in this direction */
+   nullsLast: boolean
+}
+
+/**
+ * Encode cursor values into an opaque string
+ */
+export function encodeCursor(values: unknown[]) {
+   const serialized = values.map(value => value instanceof Date ? { $date: value.toISOString() } : value)
+   return Buffer.from(JSON.stringify(serialized)).toString('base64url')
+}
+
+/**
+ * Decode an opaque cursor string into its values
+ */
+export function decodeCursor(cursor: string, length: number) {
+   let values: unknown
+
+   try {
+      values = JSON.parse(Buffer.from(cursor, 'base64url').toString())
+   }
+   catch {
+      throw new Error('Invalid pagination cursor')
+   }
+
+   if (!Array.isArray(values) || values.length !== length) {
+      throw new Error('Invalid pagination cursor')
+   }
+
+   return values.map((value) => {
+      return value && typeof value === 'object' && '$date' in value ? new Date(value.$date) : value
+   })
+}
+
+/**
+ * Check if the database sorts NULL values after every other value in ascending order (Postgres),
+ * instead of before them (MySQL, SQLite)
+ */
+export function sortsNullsLast(knex: Knex) {
+   const client = knex.client.config.client
+   return client === 'pg' || client === 'postgres' || client === 'postgresql'
+}
+
+/**
+ * Apply a keyset condition selecting rows that come after the cursor values.
+ * Builds `(c1 > v1) OR (c1 = v1 AND c2 > v2) OR ...` with comparisons flipped for descending columns.
+ * NULL values compare with `IS NULL` / `IS NOT NULL` following the position the database sorts them at.
+ */
+export function applyKeysetFilter(qb: Knex.QueryBuilder, tableName: string, columns: KeysetColumn[], values: unknown[]) {
+   return qb.andWhere((builder) => {
+      columns.forEach(({ column, direction, nullsLast }, index) => {
+         const value = values[index] as Knex.Value
+         // nothing sorts after NULL values placed last
+         if (value === null && nullsLast) return
+
+         builder.orWhere((inner) => {
+            for (let i = 0; i < index; i++) {
+               const previous = `${tableName}.${columns[i]!.column}`
+               if (values[i] === null) inner.whereNull(previous)
+               else inner.where(previous, '=', values[i] as Knex.Value)
+            }
+
+            const ref = `${tableName}.${column}`
+            if (value === null) {
+               inner.whereNotNull(ref)
+            }
+            else if (nullsLast) {
+               inner.where(nested => nested.where(ref, direction === 'desc' ? '<' : '>', value).orWhereNull(ref))
+            }
+            else {
+               inner.where(ref, direction === 'desc' ? '<' : '>', value)
+            }
+         })
+      })
+   })
+}
@@ -1,35 +1,103 @@
 import type { Knex } from 'knex'
+import type { HookOptions } from './hooks'
+import type { KeysetColumn } from './pagination'
+import type { ColumnDefinition } from '@/types/columns'
 import type { FieldName } from '@/types/fields'
-import type { MutationOptions } from '@/types/orm'
-import type { FilterQuery, FindQueryParams, QueryResult, QueryResultItem } from '@/types/query'
-import type { CollectionDefinition, Schema, TableItem, TableItemInput, TableNames, TablePrimaryKeyValue } from '@/types/schema'
-import { getCollection, getColumns, getPrimaryKey, getRelations } from './collections'
-import { applyFilters } from './filters'
-import { clientSupportsReturning } from './misc'
+import type { CreateOptions, MutationOptions, QueryOptions, UpsertOptions } from '@/types/orm'
+import type { AggregateDefinition, AggregateFunction, AggregateGroupByField, AggregateQueryParams, AggregateResult, FieldFilter, FilterQuery, FindQueryParams, PaginateQueryParams, PaginateResult, QueryResult, QueryResultItem, SoftDeleteQueryOptions } from '@/types/query'
+import type { RelationDefinition } from '@/types/relations'
+import type { CollectionDefinition, Schema, TableItem, TableItemInput, TableItemPatch, TableNames, TablePrimaryKeyValue } from '@/types/schema'
+import { hash } from 'ohash'
+import { getCollection, getColumns, getOnUpdateValues, getPivotColumns, getPrimaryKey, getPrimaryKeys, getRelations, getSoftDeleteColumn, getVersionColumn } from './collections'
+import { OptimisticLockError } from './errors'
+import { applyFieldFilter, applyFilters, applySoftDeleteScope } from './filters'
+import { clientSupportsReturning, isNonNullish, resolveFunctionHelper } from './misc'
 import { handleBelongsToRelations, handleChildRelationsOnCreate, handleChildRelationsOnUpdate, partitionRecord } from './mutations'
+import { applyKeysetFilter, decodeCursor, encodeCursor, sortsNullsLast } from './pagination'
 import { isBelongsTo, isHasMany, isHasOne, isManyToMany } from './relations'
 import { runInTransaction } from './transactions'
+import { extractUpdateExpressions } from './update-operators'
 import { attachRowNormalizer, transformInputValue, transformOutputColumnValue, transformOutputValue } from './values'
 
 type QueryOptionsSlice<S extends Schema, N extends TableNames<S>> = Pick<FindQueryParams<S, N>, 'orderBy' | 'limit' | 'offset'>
 
+/**
+ * Resolve an orderBy path to a column reference, joining the belongs-to and has-one relations along the way.
+ * Joined tables are aliased with a hash of the relation path, like relation filters.
+ */
+function resolveOrderByColumn<S extends Schema>(
+   qb: Knex.QueryBuilder,
+   schema: S,
+   tableName: TableNames<S>,
+   tableAlias: string,
+   path: string,
+   joined: Set<string>,
+) {
+   const segments = path.split('.')
+   const column = segments.pop()
+   let currentTable = tableName
+   let currentAlias = tableAlias
+
+   segments.forEach((relationName, index) => {
+      const collection = getCollection(schema, currentTable)
+      const relation = getRelations(collection, { includeBelongsTo: true })[relationName]
+      if (!relation || (!isBelongsTo(relation) && !isHasOne(relation))) {
+         throw new Error(`Cannot order by "${path}": "${relationName}" is not a belongs-to or has-one relation of table "${currentTable}"`)
+      }
+
+      const relatedAlias = hash({ orderBy: segments.slice(0, index + 1).join('.') })
+      if (!joined.has(relatedAlias)) {
+         joined.add(relatedAlias)
+         const relatedCollection = getCollection(schema, relation.table)
+         if (isBelongsTo(relation)) {
+            buildBelongsToJoin(qb, relation.table, relatedAlias, currentAlias, relationName, getPrimaryKey(relatedCollection), getSoftDeleteColumn(relatedCollection))
+         }
+         else {
+            buildHasRelationJoin(qb, relation.table, relatedAlias, relation.foreignKey, currentAlias, getPrimaryKey(collection), getSoftDeleteColumn(relatedCollection))
+         }
+      }
+
+      currentTable = relation.table
+      currentAlias = relatedAlias
+   })
+
+   return `${currentAlias}.${column}`
+}
+
+/**
+ * Resolve orderBy entries to column references and directions, joining the relations they traverse
+ */
+function resolveOrderBy<S extends Schema>(
+   qb: Knex.QueryBuilder,
+   schema: S,
+   tableName: TableNames<S>,
+   orderBy: readonly string[],
+   tableAlias: string = tableName,
+) {
+   const joined = new Set<string>()
+   return orderBy.map((entry) => {
+      const isDesc = entry.startsWith('-')
+      const column = resolveOrderByColumn(qb, schema, tableName, tableAlias, isDesc ? entry.slice(1) : entry, joined)
+      return { column, order: isDesc ? 'desc' as const : 'asc' as const }
+   })
+}
+
 /**
  * Apply query options (orderBy, limit, offset) to query builder
  */
 function applyQueryOptions<S extends Schema, N extends TableNames<S>, TRecord extends Record<string, unknown>>(
    qb: Knex.QueryBuilder<TRecord, TRecord[]>,
+   schema: S,
+   tableName: N,
    options?: QueryOptionsSlice<S, N>,
+   tableAlias: string = tableName,
 ) {
    if (!options) return qb
 
    const { orderBy, limit, offset } = options
 
    if (orderBy?.length) {
-      for (const entry of orderBy) {
-         const isDesc = entry.startsWith('-')
-         const column = (isDesc ? entry.slice(1) : entry).split('.')[0]
-         if (column) qb.orderBy(column, isDesc ? 'desc' : 'asc')
-      }
+      qb.orderBy(resolveOrderBy(qb, schema, tableName, orderBy, tableAlias))
    }
 
    if (typeof limit === 'number') qb.limit(limit)
@@ -72,6 +140,8 @@ function hasNestedColumns(columns?: string[]) {
 
 interface RelationTree {
    fields: Set<string>
+   /** Junction columns of a many-to-many relation, selected with `relation.$pivot.column` */
+   pivot: Set<string>
    nested: Record<string, RelationTree>
 }
 
@@ -91,18 +161,19 @@ function parseColumnPaths(columns: readonly string[]) {
       }
 
       const parts = column.split('.')
+      const isPivot = parts.length > 2 && parts[parts.length - 2] === '$pivot'
+      const relationParts = isPivot ? parts.slice(0, -2) : parts.slice(0, -1)
       let current = relationTree
 
-      for (let i = 0; i < parts.length - 1; i++) {
-         const part = parts[i]
+      relationParts.forEach((part, i) => {
          if (!current[part]) {
-            current[part] = { fields: new Set(), nested: {} }
+            current[part] = { fields: new Set(), pivot: new Set(), nested: {} }
          }
-         if (i === parts.length - 2) {
-            current[part].fields.add(parts[parts.length - 1])
+         if (i === relationParts.length - 1) {
+            current[part][isPivot ? 'pivot' : 'fields'].add(parts[parts.length - 1])
          }
          current = current[part].nested
-      }
+      })
    }
 
    return { relationTree, baseColumns: Array.from(baseColumns) }
@@ -118,8 +189,12 @@ function buildBelongsToJoin(
    baseAlias: string,
    relationName: string,
    relatedPk: string,
+   softDeleteColumn?: string,
 ) {
-   qb.leftJoin(`${relatedTable} as ${relatedAlias}`, `${baseAlias}.${relationName}`, `${relatedAlias}.${relatedPk}`)
+   qb.leftJoin(`${relatedTable} as ${relatedAlias}`, (join) => {
+      join.on(`${baseAlias}.${relationName}`, `${relatedAlias}.${relatedPk}`)
+      if (softDeleteColumn) join.andOnNull(`${relatedAlias}.${softDeleteColumn}`)
+   })
 }
 
 /**
@@ -132,8 +207,12 @@ function buildHasRelationJoin(
    foreignKey: string,
    baseAlias: string,
    basePk: string,
+   softDeleteColumn?: string,
 ) {
-   qb.leftJoin(`${relatedTable} as ${relatedAlias}`, `${relatedAlias}.${foreignKey}`, `${baseAlias}.${basePk}`)
+   qb.leftJoin(`${relatedTable} as ${relatedAlias}`, (join) => {
+      join.on(`${relatedAlias}.${foreignKey}`, `${baseAlias}.${basePk}`)
+      if (softDeleteColumn) join.andOnNull(`${relatedAlias}.${softDeleteColumn}`)
+   })
 }
 
 /**
@@ -147,11 +226,15 @@ function buildManyToManyJoin(
    baseAlias: string,
    basePk: string,
    relatedPk: string,
+   softDeleteColumn?: string,
 ) {
    const junctionAlias = `${relatedAlias}_junction`
    qb
       .leftJoin(`${through.table} as ${junctionAlias}`, `${junctionAlias}.${through.sourceFk}`, `${baseAlias}.${basePk}`)
-      .leftJoin(`${relatedTable} as ${relatedAlias}`, `${relatedAlias}.${relatedPk}`, `${junctionAlias}.${through.tableFk}`)
+      .leftJoin(`${relatedTable} as ${relatedAlias}`, (join) => {
+         join.on(`${relatedAlias}.${relatedPk}`, `${junctionAlias}.${through.tableFk}`)
+         if (softDeleteColumn) join.andOnNull(`${relatedAlias}.${softDeleteColumn}`)
+      })
 }
 
 /**
@@ -184,6 +267,7 @@ function addRelationSelects<S extends Schema>(
 
 /**
  * Build JOINs and SELECT statements for relations (recursive)
+ * The primary key of each joined relation is collected in `orderings` so related rows come back in a stable order
  */
 function buildJoinsAndSelects<S extends Schema>(
    qb: Knex.QueryBuilder,
@@ -193,6 +277,7 @@ function buildJoinsAndSelects<S extends Schema>(
    relationTree: Record<string, RelationTree>,
    prefix: string,
    selects: string[],
+   orderings: string[],
    rootTable: TableNames<S>,
 ) {
    const collection = getCollection(schema, baseTable)
@@ -209,25 +294,30 @@ function buildJoinsAndSelects<S extends Schema>(
       if (!relatedCollection) continue
 
       const relatedPk = getPrimaryKey(relatedCollection)
+      const softDeleteColumn = getSoftDeleteColumn(relatedCollection)
 
       if (relatedTable === rootTable) continue
 
       if (isBelongsTo(relation)) {
-         buildBelongsToJoin(qb, relatedTable, relatedAlias, baseAlias, relationName, relatedPk)
+         buildBelongsToJoin(qb, relatedTable, relatedAlias, baseAlias, relationName, relatedPk, softDeleteColumn)
       }
       else if (isHasOne(relation) || isHasMany(relation)) {
-         buildHasRelationJoin(qb, relatedTable, relatedAlias, relation.foreignKey, baseAlias, basePk)
+         buildHasRelationJoin(qb, relatedTable, relatedAlias, relation.foreignKey, baseAlias, basePk, softDeleteColumn)
       }
       else if (isManyToMany(relation)) {
          const { through } = relation
          if (!through) continue
-         buildManyToManyJoin(qb, relatedTable, relatedAlias, through, baseAlias, basePk, relatedPk)
+         buildManyToManyJoin(qb, relatedTable, relatedAlias, through, baseAlias, basePk, relatedPk, softDeleteColumn)
+         for (const field of tree.pivot) {
+            selects.push(`${relatedAlias}_junction.${field} as ${relatedAlias}_junction_${field}`)
+         }
       }
 
       addRelationSelects(schema, relatedCollection, relatedAlias, relatedPk, tree, selects)
+      orderings.push(`${relatedAlias}.${relatedPk}`)
 
       if (Object.keys(tree.nested).length > 0) {
-         buildJoinsAndSelects(qb, schema, relatedTable, relatedAlias, tree.nested, relatedAlias, selects, rootTable)
+         buildJoinsAndSelects(qb, schema, relatedTable, relatedAlias, tree.nested, relatedAlias, selects, orderings, rootTable)
       }
    }
 }
@@ -343,7 +433,12 @@ function reconstructMultiRelation<S extends Schema>(
       const relatedPkValue = row[relatedPkAlias]
       if (relatedPkValue != null && (typeof relatedPkValue === 'string' || typeof relatedPkValue === 'number')) {
          if (!relationObjects.has(relatedPkValue)) {
-            relationObjects.set(relatedPkValue, extractRelationObject(row, tree, relatedAlias, relatedColumns, clientName))
+            const relationObj = extractRelationObject(row, tree, relatedAlias, relatedColumns, clientName)
+            if (isManyToMany(relation) && tree.pivot.size > 0) {
+               const pivotTree = { fields: tree.pivot, pivot: new Set<string>(), nested: {} }
+               relationObj.$pivot = extractRelationObject(row, pivotTree, `${relatedAlias}_junction`, getPivotColumns(schema, relation), clientName)
+            }
+            relationObjects.set(relatedPkValue, relationObj)
          }
 
          const hasNested = Object.keys(tree.nested).length > 0
@@ -492,18 +587,87 @@ async function insertRecord(
    }
 
    const [insertId] = await qb.insert(data)
-   const primaryKey = getPrimaryKey(collection)
-   const pkValue = data[primaryKey] ?? insertId
+   const primaryKeys = getPrimaryKeys(collection)
+   const keyValues = Object.fromEntries(primaryKeys.map(key => [key, data[key] ?? (primaryKeys.length === 1 ? insertId : undefined)]))
 
-   if (pkValue === undefined) {
+   if (Object.values(keyValues).includes(undefined)) {
       throw new Error(`Unable to determine primary key for ${tableName} insert`)
    }
 
-   const inserted = await builder(knex, tableName, trx).where(primaryKey, pkValue).first()
+   const inserted = await builder(knex, tableName, trx).where(keyValues).first()
    if (!inserted) throw new Error('Failed to fetch inserted record')
 
    return inserted
 }
+
+/**
+ * Filter a query on the primary keys of records, matching every column of composite keys
+ */
+function whereRecordKeys(qb: Knex.QueryBuilder, primaryKeys: string[], records: Record<string, unknown>[]) {
+   if (primaryKeys.length === 1) {
+      return qb.whereIn(primaryKeys[0]!, records.map(record => record[primaryKeys[0]!] as string | number))
+   }
+   return qb.where((where) => {
+      records.forEach(record => where.orWhere(Object.fromEntries(primaryKeys.map(key => [key, record[key]]))))
+   })
+}
+
+/**
+ * Get a string identifying a record by its primary key values
+ */
+function getRecordKey(record: Record<string, unknown>, primaryKeys: string[]) {
+   return JSON.stringify(primaryKeys.map(key => String(record[key])))
+}
+
+/**
+ * Get the keys auto-incremented by a multi-row SQLite insert from the rowid of its last row
+ */
+function getInsertedKeyRange(insertId: number, count: number) {
+   return Array.from({ length: count }, (_, index) => insertId - count + 1 + index)
+}
+
+/**
+ * Insert records sharing the same columns with a single statement and return them in order (handles RETURNING support)
+ */
+async function insertRecords(
+   knex: Knex,
+   tableName: string,
+   collection: CollectionDefinition,
+   rows: Record<string, unknown>[],
+   trx: Knex.Transaction,
+): Promise<Record<string, unknown>[]> {
+   if (rows.length === 1) return [await insertRecord(knex, tableName, collection, rows[0]!, trx)]
+
+   if (clientSupportsReturning(knex)) {
+      return builder(knex, tableName, trx).insert(rows, '*')
+   }
+
+   const primaryKeys = getPrimaryKeys(collection)
+   const keyCount = rows.filter(row => primaryKeys.every(key => isNonNullish(row[key]))).length
+   const increments = primaryKeys.length === 1 && (collection[primaryKeys[0]!] as ColumnDefinition | undefined)?.increments
+
+   // generated keys can't be recovered from a multi-row insert unless they follow each other, which MySQL
+   // doesn't guarantee with an `auto_increment_increment` above 1 or the interleaved lock mode
+   const isMysql = String(knex.client.config.client).includes('mysql')
+   if (keyCount !== rows.length && (keyCount > 0 || !increments || isMysql)) {
+      const inserted: Record<string, unknown>[] = []
+      for (const row of rows) {
+         inserted.push(await insertRecord(knex, tableName, collection, row, trx))
+      }
+      return inserted
+   }
+
+   const [insertId] = await builder(knex, tableName, trx).insert(rows)
+   const keys = keyCount ? rows : getInsertedKeyRange(Number(insertId), rows.length).map(key => ({ [primaryKeys[0]!]: key }))
+   const inserted = await whereRecordKeys(builder(knex, tableName, trx), primaryKeys, keys).select('*') as Record<string, unknown>[]
+   const insertedByKey = new Map(inserted.map(row => [getRecordKey(row, primaryKeys), row]))
+
+   return keys.map((key) => {
+      const row = insertedByKey.get(getRecordKey(key, primaryKeys))
+      if (!row) throw new Error('Failed to fetch inserted record')
+      return row
+   })
+}
 /**
  * Find records in a table.
  */
@@ -511,17 +675,25 @@ export function find<S extends Schema, N extends TableNames<S>, C extends FieldN
    const { trx, ...rest } = (params ?? {}) as P
    const { columns, where, orderBy, limit, offset } = rest
 
+   if (rest.with) {
+      const { relationTree } = parseColumnPaths((columns ?? []) as readonly string[])
+      assertSelectedRelations(expandWildcards(relationTree, schema, tableName), rest.with as Record<string, RelationLoadOptions | undefined>)
+   }
+
    if (hasNestedColumns(columns) || columns?.includes('*' as FieldName<S, N>)) {
-      return findWithRelations<S, N, C>(knex, schema, tableName, params)
+      return rest.strategy === 'select-in' || rest.with
+         ? findWithSelectIn<S, N, C>(knex, schema, tableName, params)
+         : findWithRelations<S, N, C>(knex, schema, tableName, params)
    }
 
    const qb = builder(knex, tableName, trx)
 
-   const selectableColumns = extractSelectableColumns(columns)
-   qb.select(selectableColumns || '*')
+   const selectableColumns = extractSelectableColumns(columns) ?? ['*']
+   qb.select(selectableColumns.map(column => `${tableName}.${column}`))
    attachRowNormalizer(qb, schema, tableName)
-   applyFilters(qb, knex, schema, tableName, where)
-   applyQueryOptions(qb, { orderBy, limit, offset })
+   applyFilters(qb, knex, schema, tableName, where, tableName)
+   applySoftDeleteScope(qb, getCollection(schema, tableName), tableName, rest)
+   applyQueryOptions(qb, schema, tableName, { orderBy, limit, offset })
 
    return qb as Knex.QueryBuilder<QueryResult<S, N, C>, QueryResult<S, N, C>>
 }
@@ -552,6 +724,7 @@ function expandWildcards<S extends Schema>(
             const nestedExpanded = expandWildcards(relationTree.nested, schema, relation.table, currentPath)
             expanded[relName] = {
                fields: new Set(relationTree.fields),
+               pivot: new Set(relationTree.pivot),
                nested: nestedExpanded,
             }
          }
@@ -565,6 +738,7 @@ function expandWildcards<S extends Schema>(
          const nestedExpanded = expandWildcards(relationTree.nested, schema, relation.table, currentPath)
          expanded[relationName] = {
             fields: new Set(relationTree.fields),
+            pivot: new Set(relationTree.pivot),
             nested: nestedExpanded,
          }
       }
@@ -617,6 +791,65 @@ function transformFlatRowsToResults(flatRows: Record<string, unknown>[], baseAli
    return results
 }
 
+/**
+ * Build a subquery selecting the primary keys of records matching the filters
+ */
+function matchingPrimaryKeys<S extends Schema, N extends TableNames<S>>(
+   knex: Knex,
+   schema: S,
+   tableName: N,
+   where?: FilterQuery<S, N>,
+   trx?: Knex.Transaction,
+   options?: SoftDeleteQueryOptions,
+) {
+   const collection = getCollection(schema, tableName)
+   return builder(knex, tableName, trx)
+      .modify((qb) => { return applyFilters(qb, knex, schema, tableName, where) })
+      .modify((qb) => { return applySoftDeleteScope(qb, collection, tableName, options) })
+      .select(getPrimaryKeys(collection).map(key => `${tableName}.${key}`))
+}
+
+/**
+ * Restrict a query to the records matching the filters, comparing every primary key column
+ */
+function whereMatchingPrimaryKeys<S extends Schema, N extends TableNames<S>>(
+   qb: Knex.QueryBuilder,
+   knex: Knex,
+   schema: S,
+   tableName: N,
+   where?: FilterQuery<S, N>,
+   trx?: Knex.Transaction,
+   options?: SoftDeleteQueryOptions,
+) {
+   const primaryKeys = getPrimaryKeys(getCollection(schema, tableName)).map(key => `${tableName}.${key}`)
+   const matching = matchingPrimaryKeys(knex, schema, tableName, where, trx, options)
+   return primaryKeys.length === 1 ? qb.whereIn(primaryKeys[0]!, matching) : qb.whereIn(primaryKeys, matching)
+}
+
+/**
+ * Select the primary keys of the page of root records matching the filters.
+ * Filters run in a subquery so relation joins can't duplicate root rows before limit/offset apply.
+ */
+async function selectRootPrimaryKeys<S extends Schema, N extends TableNames<S>>(
+   knex: Knex,
+   schema: S,
+   tableName: N,
+   params: Pick<FindParams<S, N, []>, 'where' | 'orderBy' | 'limit' | 'offset' | 'trx' | 'withDeleted' | 'onlyDeleted'>,
+) {
+   const { trx, where, orderBy, limit, offset } = params
+   const primaryKey = getPrimaryKey(getCollection(schema, tableName))
+
+   const qb = builder(knex, tableName, trx)
+      .whereIn(`${tableName}.${primaryKey}`, matchingPrimaryKeys(knex, schema, tableName, where, trx, params))
+      .select(`${tableName}.${primaryKey}`)
+   applyQueryOptions(qb, schema, tableName, { orderBy, limit, offset })
+   // without a unique ordering, pages may overlap or skip records between queries
+   qb.orderBy(`${tableName}.${primaryKey}`)
+
+   const rows = await qb as Record<string, unknown>[]
+   return rows.map(row => row[primaryKey] as Knex.Value)
+}
+
 /**
  * Find records with relation loading for nested column selections
  */
@@ -645,14 +878,26 @@ async function findWithRelations<S extends Schema, N extends TableNames<S>, C ex
    const hasExplicitBaseColumns = baseColumns.some(col => col !== basePk) || hasWildcardInRelations
 
    const selects = buildBaseColumnSelects(baseAlias, baseColumns, basePk, allColumns)
+   const orderings = [`${baseAlias}.${basePk}`]
 
    if (Object.keys(finalRelationTree).length > 0) {
-      buildJoinsAndSelects(qb, schema, tableName, baseAlias, finalRelationTree, baseAlias, selects, tableName)
+      buildJoinsAndSelects(qb, schema, tableName, baseAlias, finalRelationTree, baseAlias, selects, orderings, tableName)
    }
 
    qb.select(selects)
-   applyFilters(qb, knex, schema, tableName, where)
-   applyQueryOptions(qb, { orderBy, limit, offset })
+
+   if (typeof limit === 'number' || typeof offset === 'number') {
+      const ids = await selectRootPrimaryKeys(knex, schema, tableName, { ...rest, trx })
+      qb.whereIn(`${baseAlias}.${basePk}`, ids)
+   }
+   else {
+      applyFilters(qb, knex, schema, tableName, where)
+      applySoftDeleteScope(qb, collection, baseAlias, rest)
+   }
+
+   applyQueryOptions(qb, schema, tableName, { orderBy }, baseAlias)
+   // primary keys break ties so root records and their related rows keep a deterministic order
+   qb.orderBy(orderings)
 
    const flatRows = await qb
 
@@ -663,12 +908,259 @@ async function findWithRelations<S extends Schema, N extends TableNames<S>, C ex
    return transformFlatRowsToResults(flatRows, baseAlias) as QueryResult<S, N, C>
 }
 
+type LoadedRelations = Map<Record<string, unknown>, Record<string, unknown>>
+
+/** Untyped view of the per-relation `with` options used while loading relations */
+interface RelationLoadOptions {
+   where?: Record<string, unknown>
+   orderBy?: string[]
+   limit?: number
+   offset?: number
+   with?: Record<string, RelationLoadOptions | undefined>
+}
+
+/**
+ * Ensure per-relation options (`with`) only target relations selected in `columns` (recursive)
+ */
+function assertSelectedRelations(relationTree: Record<string, RelationTree>, relationOptions: Record<string, RelationLoadOptions | undefined>, prefix = '') {
+   for (const [relationName, options] of Object.entries(relationOptions)) {
+      if (!options) continue
+
+      const path = prefix ? `${prefix}.${relationName}` : relationName
+      const tree = relationTree[relationName]
+      if (!tree) throw new Error(`Cannot apply "with" options to "${path}": the relation is not selected in columns`)
+      if (options.with) assertSelectedRelations(tree.nested, options.with, path)
+   }
+}
+
+/**
+ * Group related rows by the key linking them to their parent
+ */
+function groupRelatedRows(entries: [unknown, Record<string, unknown>][]) {
+   const grouped = new Map<unknown, Record<string, unknown>[]>()
+   for (const [key, row] of entries) {
+      const existing = grouped.get(key)
+      if (existing) existing.push(row)
+      else grouped.set(key, [row])
+   }
+   return grouped
+}
+
+/**
+ * Collect distinct, non-null values of a column
+ */
+function collectKeys(rows: Record<string, unknown>[], column: string) {
+   return Array.from(new Set(rows.map(row => row[column]).filter(isNonNullish))) as Knex.Value[]
+}
+
+/**
+ * Run a related rows query in order.
+ * With a parent key, only the rows within each parent's `offset` and `limit` are kept, numbered with a `ROW_NUMBER()` window partitioned by that key.
+ */
+async function selectRelatedRows(
+   knex: Knex,
+   qb: Knex.QueryBuilder,
+   ordering: { column: string, order: 'asc' | 'desc' }[],
+   parentKey: string | undefined,
+   options: RelationLoadOptions,
+   trx?: Knex.Transaction,
+) {
+   if (!parentKey) return await qb.orderBy(ordering) as Record<string, unknown>[]
+
+   const start = options.offset ?? 0
+   // knex types accept a single ordering object, although lists of them compile the same way
+   const numbered = qb.rowNumber('relation_row', ordering as unknown as { column: string }, parentKey)
+   const paged = (trx ?? knex)
+      .select('*')
+      .from(numbered.as('related_rows'))
+      .where('relation_row', '>', start)
+      .orderBy('relation_row')
+   if (typeof options.limit === 'number') paged.where('relation_row', '<=', start + options.limit)
+
+   const rows = await paged as Record<string, unknown>[]
+   return rows.map(({ relation_row: _, ...row }) => row)
+}
+
+/**
+ * Fetch the related rows of a relation with a single `WHERE key IN (...)` query.
+ * Returns each related row paired with the parent key it belongs to.
+ */
+async function fetchRelatedRows<S extends Schema>(
+   knex: Knex,
+   schema: S,
+   tableName: TableNames<S>,
+   relationName: string,
+   relation: RelationDefinition,
+   rows: Record<string, unknown>[],
+   options: RelationLoadOptions = {},
+   trx?: Knex.Transaction,
+   pivot: Set<string> = new Set(),
+): Promise<[unknown, Record<string, unknown>][]> {
+   const basePk = getPrimaryKey(getCollection(schema, tableName))
+   const relatedCollection = getCollection(schema, relation.table)
+   const relatedPk = getPrimaryKey(relatedCollection)
+   const keys = collectKeys(rows, isBelongsTo(relation) ? relationName : basePk)
+   if (!keys.length) return []
+
+   const qb = builder(knex, relation.table, trx)
+   applySoftDeleteScope(qb, relatedCollection, relation.table)
+   if (options.where) {
+      qb.whereIn(`${relation.table}.${relatedPk}`, matchingPrimaryKeys(knex, schema, relation.table, options.where as FilterQuery<S, TableNames<S>>, trx))
+   }
+   const ordering = resolveOrderBy(qb, schema, relation.table, [...options.orderBy ?? [], relatedPk])
+   const isPaged = (isHasMany(relation) || isManyToMany(relation)) && (typeof options.limit === 'number' || typeof options.offset === 'number')
+
+   if (isManyToMany(relation)) {
+      const { through } = relation
+      const junctionAlias = `${relation.table}_junction`
+      const pivotSelects = Array.from(pivot, field => `${junctionAlias}.${field} as ${junctionAlias}_pivot_${field}`)
+      qb
+         .innerJoin(`${through.table} as ${junctionAlias}`, `${junctionAlias}.${through.tableFk}`, `${relation.table}.${relatedPk}`)
+         .whereIn(`${junctionAlias}.${through.sourceFk}`, keys)
+         .select(`${relation.table}.*`, `${junctionAlias}.${through.sourceFk} as ${junctionAlias}_source`, ...pivotSelects)
+      const related = await selectRelatedRows(knex, qb, ordering, isPaged ? `${junctionAlias}.${through.sourceFk}` : undefined, options, trx)
+
+      return related.map(({ [`${junctionAlias}_source`]: key, ...row }) => {
+         if (!pivot.size) return [key, row]
+
+         const $pivot: Record<string, unknown> = {}
+         for (const field of pivot) {
+            $pivot[field] = row[`${junctionAlias}_pivot_${field}`]
+            delete row[`${junctionAlias}_pivot_${field}`]
+         }
+         return [key, { ...row, $pivot: transformOutputValue(schema, through.table, $pivot, knex.client.config.client) }]
+      })
+   }
+
+   qb.whereIn(`${relation.table}.${relation.foreignKey}`, keys).select(`${relation.table}.*`)
+   const related = await selectRelatedRows(knex, qb, ordering, isPaged ? `${relation.table}.${relation.foreignKey}` : undefined, options, trx)
+   return related.map(row => [row[relation.foreignKey], row])
+}
+
+/**
+ * Pick the requested fields of a row and merge its loaded relations
+ */
+function shapeRecord(
+   row: Record<string, unknown>,
+   fields: Iterable<string>,
+   columns: Record<string, any>,
+   relations: Record<string, unknown> | undefined,
+   expanded: Set<string>,
+) {
+   const result: Record<string, unknown> = {}
+
+   for (const field of fields) {
+      if (columns[field] && row[field] !== undefined && !expanded.has(field)) {
+         result[field] = row[field]
+      }
+   }
+   if (row.$pivot) result.$pivot = row.$pivot
+
+   return Object.assign(result, relations)
+}
+
+/**
+ * Load relations level by level with one query per relation (recursive)
+ */
+async function loadRelationsSelectIn<S extends Schema>(
+   knex: Knex,
+   schema: S,
+   tableName: TableNames<S>,
+   rows: Record<string, unknown>[],
+   relationTree: Record<string, RelationTree>,
+   rootTable: TableNames<S>,
+   clientName: string,
+   relationOptions: Record<string, RelationLoadOptions | undefined> = {},
+   trx?: Knex.Transaction,
+): Promise<LoadedRelations> {
+   const loaded: LoadedRelations = new Map(rows.map(row => [row, {}]))
+   const relations = getRelations(getCollection(schema, tableName), { includeBelongsTo: true })
+   const basePk = getPrimaryKey(getCollection(schema, tableName))
+
+   for (const [relationName, tree] of Object.entries(relationTree)) {
+      const relation = relations[relationName] as RelationDefinition | undefined
+      if (!relation || !schema[relation.table] || relation.table === rootTable) continue
+
+      const options = relationOptions[relationName]
+      const related = await fetchRelatedRows(knex, schema, tableName, relationName, relation, rows, options, trx, tree.pivot)
+      const relatedRows = related.map(([, row]) => transformOutputValue(schema, relation.table, row, clientName) as Record<string, unknown>)
+      const nested = await loadRelationsSelectIn(knex, schema, relation.table, relatedRows, tree.nested, rootTable, clientName, options?.with, trx)
+
+      const relatedCollection = getCollection(schema, relation.table)
+      const relatedColumns = getColumns(schema, relatedCollection, { includeBelongsTo: true })
+      const fields = new Set(tree.fields.size === 0 || tree.fields.has('*') ? Object.keys(relatedColumns) : tree.fields)
+      if (Object.keys(tree.nested).length > 0) fields.add(getPrimaryKey(relatedCollection))
+      const expanded = identifyBelongsToForeignKeys(tree.nested, getRelations(relatedCollection, { includeBelongsTo: true }))
+
+      const grouped = groupRelatedRows(related.map(([key, row]) => [key, shapeRecord(row, fields, relatedColumns, nested.get(row), expanded)]))
+
+      for (const row of rows) {
+         const matches = grouped.get(row[isBelongsTo(relation) ? relationName : basePk])
+         if (isBelongsTo(relation) || isHasOne(relation)) {
+            if (matches?.[0]) loaded.get(row)![relationName] = matches[0]
+         }
+         else {
+            loaded.get(row)![relationName] = matches ?? []
+         }
+      }
+   }
+
+   return loaded
+}
+
+/**
+ * Find records with relations loaded through separate `WHERE key IN (...)` queries (one per relation level).
+ * Also used for the join strategy when per-relation options (`with`) are given, as they can't be expressed in a single joined query.
+ */
+async function findWithSelectIn<S extends Schema, N extends TableNames<S>, C extends FieldName<S, N>[], P extends FindParams<S, N, C> = FindParams<S, N, C>>(
+   knex: Knex,
+   schema: S,
+   tableName: N,
+   params?: P,
+) {
+   const { trx, ...rest } = (params ?? {}) as P
+   const { columns, where, orderBy, limit, offset } = rest
+   const clientName = knex.client.config.client
+
+   const { relationTree, baseColumns } = parseColumnPaths((columns ?? []) as readonly string[])
+   const collection = getCollection(schema, tableName)
+   const basePk = getPrimaryKey(collection)
+   const allColumns = getColumns(schema, collection, { includeBelongsTo: true })
+
+   const finalRelationTree = expandWildcards(relationTree, schema, tableName)
+
+   const requestedBaseColumns = baseColumns.filter(col => col !== '*' && col !== basePk)
+   const hasWildcardInBase = baseColumns.includes('*')
+   const hasWildcardInRelations = Object.keys(relationTree).includes('*')
+   const hasExplicitBaseColumns = baseColumns.some(col => col !== basePk) || hasWildcardInRelations
+
+   const qb = builder(knex, tableName, trx)
+      .whereIn(`${tableName}.${basePk}`, matchingPrimaryKeys(knex, schema, tableName, where, trx, rest))
+      .select(`${tableName}.*`)
+   applyQueryOptions(qb, schema, tableName, { orderBy, limit, offset })
+
+   const rows = (await qb as Record<string, unknown>[])
+      .map(row => transformOutputValue(schema, tableName, row, clientName) as Record<string, unknown>)
+
+   const loaded = await loadRelationsSelectIn(knex, schema, tableName, rows, finalRelationTree, tableName, clientName, rest.with as Record<string, RelationLoadOptions>, trx)
+
+   const fields = !hasExplicitBaseColumns
+      ? []
+      : hasWildcardInBase || !requestedBaseColumns.length
+         ? Object.keys(allColumns)
+         : [basePk, ...requestedBaseColumns]
+   const expanded = identifyBelongsToForeignKeys(finalRelationTree, getRelations(collection, { includeBelongsTo: true }))
+
+   return rows.map(row => shapeRecord(row, fields, allColumns, loaded.get(row), expanded)) as QueryResult<S, N, C>
+}
+
 /**
  * Check if a value is a params object (not a primary key value).
  */
 function isParamsObject(value: unknown): value is Record<string, unknown> {
    return value != null && typeof value === 'object' && !Array.isArray(value)
-      && ('where' in value || 'columns' in value || 'orderBy' in value || 'offset' in value || 'trx' in value)
+      && ('where' in value || 'columns' in value || 'orderBy' in value || 'offset' in value || 'strategy' in value || 'with' in value || 'trx' in value
+         || 'withDeleted' in value || 'onlyDeleted' in value)
 }
 
 /**
@@ -681,9 +1173,6 @@ export function findOne<S extends Schema, N extends TableNames<S>, C extends Fie
    primaryKeyOrParams: TablePrimaryKeyValue<S, N> | P,
    params?: Omit<P, 'where' | 'limit'>,
 ) {
-   const collection = schema[tableName]
-   const primaryKeyColumn = getPrimaryKey(collection)
-
    if (isParamsObject(primaryKeyOrParams)) {
       const result = find(knex, schema, tableName, { ...primaryKeyOrParams, limit: 1 })
       if (result instanceof Promise) {
@@ -697,43 +1186,340 @@ export function findOne<S extends Schema, N extends TableNames<S>, C extends Fie
    const result = find(knex, schema, tableName, queryParams)
 
    if ('where' in result) {
-      return result.where(primaryKeyColumn, primaryKey).first() as Knex.QueryBuilder<any, QueryResultItem<S, N, C>>
+      return result.where(`${tableName}.${getPrimaryKey(schema[tableName])}`, primaryKey).first() as Knex.QueryBuilder<any, QueryResultItem<S, N, C>>
    }
 
    return result.then(records => records?.[0] as QueryResultItem<S, N, C>)
 }
 
+/**
+ * Paginate records using keyset (cursor) pagination.
+ * The primary key is appended to the ordering so every cursor points at a unique position.
+ */
+export async function paginate<S extends Schema, N extends TableNames<S>>(
+   knex: Knex,
+   schema: S,
+   tableName: N,
+   params: PaginateQueryParams<S, N> & { trx?: Knex.Transaction },
+) {
+   const { trx, where, orderBy = [], first, after } = params
+   const collection = getCollection(schema, tableName)
+   const primaryKeys = getPrimaryKeys(collection)
+   const nullsLast = sortsNullsLast(knex)
+
+   const keyset: KeysetColumn[] = orderBy.map((entry) => {
+      const isDesc = entry.startsWith('-')
+      return { column: isDesc ? entry.slice(1) : entry, direction: isDesc ? 'desc' : 'asc', nullsLast: isDesc !== nullsLast }
+   })
+   for (const primaryKey of primaryKeys) {
+      if (!keyset.some(({ column }) => column === primaryKey)) {
+         keyset.push({ column: primaryKey, direction: 'asc', nullsLast })
+      }
+   }
+
+   const qb = builder(knex, tableName, trx).select(`${tableName}.*`)
+   attachRowNormalizer(qb, schema, tableName)
+   // filters run in a subquery so relation joins can't duplicate items of the page or its cursor
+   if (where) whereMatchingPrimaryKeys(qb, knex, schema, tableName, where, trx, params)
+   applySoftDeleteScope(qb, collection, tableName, params)
+   applyQueryOptions(qb, schema, tableName, {
+      orderBy: keyset.map(({ column, direction }) => `${direction === 'desc' ? '-' : ''}${column}`) as PaginateQueryParams<S, N>['orderBy'],
+      limit: first + 1,
+   })
+
+   if (after) {
+      applyKeysetFilter(qb, tableName, keyset, decodeCursor(after, keyset.length))
+   }
+
+   const rows = await qb as QueryResult<S, N>
+   const items = rows.slice(0, first) as QueryResult<S, N>
+   const last = items[items.length - 1] as Record<string, unknown> | undefined
+
+   return {
+      items,
+      pageInfo: {
+         hasNextPage: rows.length > first,
+         endCursor: last ? encodeCursor(keyset.map(({ column }) => last[column])) : null,
+      },
+   } satisfies PaginateResult<S, N>
+}
+
+/**
+ * Count records matching a filter query.
+ * Counts distinct primary keys so relation filters joining has-many or many-to-many tables don't inflate the result.
+ */
+export async function count<S extends Schema, N extends TableNames<S>>(
+   knex: Knex,
+   schema: S,
+   tableName: N,
+   filter?: FilterQuery<S, N>,
+   options?: QueryOptions,
+) {
+   const collection = getCollection(schema, tableName)
+   const primaryKeys = getPrimaryKeys(collection)
+   const qb = builder(knex, tableName, options?.trx)
+      .modify((qb) => { return applyFilters(qb, knex, schema, tableName, filter) })
+      .modify((qb) => { return applySoftDeleteScope(qb, collection, tableName, options) })
+
+   // composite keys can't be counted distinctly on every database, so their distinct values are counted in a subquery
+   const [row] = await (primaryKeys.length === 1
+      ? qb.countDistinct({ count: `${tableName}.${primaryKeys[0]}` })
+      : (options?.trx ?? knex).count({ count: '*' }).from(qb.distinct(primaryKeys.map(key => `${tableName}.${key}`)).as('primary_keys'))) as Record<string, unknown>[]
+
+   return Number(row?.count ?? 0)
+}
+
+/**
+ * Check if any record matches a filter query.
+ */
+export async function exists<S extends Schema, N extends TableNames<S>>(
+   knex: Knex,
+   schema: S,
+   tableName: N,
+   filter?: FilterQuery<S, N>,
+   options?: QueryOptions,
+) {
+   const collection = getCollection(schema, tableName)
+   const [primaryKey] = getPrimaryKeys(collection)
+   const row = await builder(knex, tableName, options?.trx)
+      .modify((qb) => { return applyFilters(qb, knex, schema, tableName, filter) })
+      .modify((qb) => { return applySoftDeleteScope(qb, collection, tableName, options) })
+      .select(`${tableName}.${primaryKey}`)
+      .first()
+
+   return row !== undefined
+}
+
+const AGGREGATE_FUNCTIONS = {
+   $count: 'count',
+   $countDistinct: 'countDistinct',
+   $sum: 'sum',
+   $avg: 'avg',
+   $min: 'min',
+   $max: 'max',
+} as const satisfies Record<AggregateFunction, string>
+
+type AggregateParams<S extends Schema, N extends TableNames<S>, G extends AggregateGroupByField<S, N>[], A extends Record<string, AggregateDefinition<S, N>>> = AggregateQueryParams<S, N, G, A> & { trx?: Knex.Transaction }
+
+/**
+ * Resolve a dot-notation column path, joining the belongs-to relations it traverses
+ */
+function joinBelongsToPath<S extends Schema>(
+   qb: Knex.QueryBuilder,
+   schema: S,
+   tableName: TableNames<S>,
+   baseAlias: string,
+   path: string,
+   joined: Set<string>,
+) {
+   const segments = path.split('.')
+   const column = segments.pop()!
+   let table: string = tableName
+   let alias = baseAlias
+
+   for (const segment of segments) {
+      const relation = getRelations(getCollection(schema, table), { includeBelongsTo: true })[segment]
+      if (!relation || !isBelongsTo(relation)) {
+         throw new Error(`Cannot resolve "${path}": "${segment}" is not a belongs-to relation of table "${table}"`)
+      }
+
+      const relatedAlias = `${alias}_${segment}`
+      if (!joined.has(relatedAlias)) {
+         buildBelongsToJoin(qb, relation.table, relatedAlias, alias, segment, relation.foreignKey, getSoftDeleteColumn(getCollection(schema, relation.table)))
+         joined.add(relatedAlias)
+      }
+
+      table = relation.table
+      alias = relatedAlias
+   }
+
+   const definition = getColumns(schema, getCollection(schema, table), { includeBelongsTo: true })[column]
+   if (!definition) throw new Error(`Unknown field "${column}" in table "${table}"`)
+
+   return { definition, reference: `${alias}.${column}` }
+}
+
+/**
+ * Assign a value at a dot-notation path, creating intermediate objects
+ */
+function assignPath(target: Record<string, unknown>, path: string, value: unknown) {
+   const segments = path.split('.')
+   const last = segments.pop()!
+   let current = target
+
+   for (const segment of segments) {
+      current[segment] ??= {}
+      current = current[segment] as Record<string, unknown>
+   }
+
+   current[last] = value
+}
+
+/**
+ * Check if a nested relation object only holds null values (unmatched LEFT JOIN)
+ */
+function isEmptyRelation(value: unknown): boolean {
+   if (value === null) return true
+   if (typeof value !== 'object' || value instanceof Date) return false
+   return Object.values(value).every(isEmptyRelation)
+}
+
+/**
+ * Aggregate records in a table, optionally grouped by columns or belongs-to paths.
+ */
+export async function aggregate<
+   S extends Schema,
+   N extends TableNames<S>,
+   G extends AggregateGroupByField<S, N>[] = [],
+   A extends Record<string, AggregateDefinition<S, N>> = Record<string, AggregateDefinition<S, N>>,
+>(
+   knex: Knex,
+   schema: S,
+   tableName: N,
+   params: AggregateParams<S, N, G, A>,
+) {
+   const { trx, aggregates, where, groupBy = [], having, orderBy, limit, offset } = params
+   const clientName = knex.client.config.client
+   const collection = getCollection(schema, tableName)
+   const columns = getColumns(schema, collection, { includeBelongsTo: true })
+
+   const inner = builder(knex, `${tableName} as ${tableName}`, trx)
+   const joined = new Set<string>()
+   const groups = (groupBy as string[]).map((path, index) => ({
+      path,
+      alias: `group_${index}`,
+      ...joinBelongsToPath(inner, schema, tableName, tableName, path, joined),
+   }))
+
+   for (const group of groups) {
+      inner.select(`${group.reference} as ${group.alias}`).groupBy(group.reference)
+   }
+
+   const outputColumns: Record<string, ColumnDefinition | undefined> = {}
+
+   for (const [alias, definition] of Object.entries(aggregates)) {
+      const [fn, column] = Object.entries(definition)[0] ?? []
+      const method = AGGREGATE_FUNCTIONS[fn as AggregateFunction]
+      if (!method) throw new Error(`Invalid aggregate function: ${fn}`)
+
+      if (column !== '*' && !columns[column]) {
+         throw new Error(`Unknown field "${column}" in aggregate for table "${tableName}"`)
+      }
+
+      const select = inner[method] as (columns: Record<string, string>) => Knex.QueryBuilder
+      select.call(inner, { [alias]: column === '*' ? '*' : `${tableName}.${column}` })
+      outputColumns[alias] = fn === '$min' || fn === '$max' ? columns[column] : undefined
+   }
+
+   // filters run in a subquery so relation joins on has-many or many-to-many tables can't duplicate aggregated rows
+   if (where) whereMatchingPrimaryKeys(inner, knex, schema, tableName, where, trx, params)
+   applySoftDeleteScope(inner, collection, tableName, params)
+
+   const qb = (trx ?? knex).select('*').from(inner.as('aggregates'))
+
+   for (const [alias, filter] of Object.entries(having ?? {})) {
+      if (!(alias in aggregates)) throw new Error(`Unknown aggregate "${alias}" in having clause`)
+      if (filter !== undefined) applyFieldFilter(qb, alias, filter as FieldFilter)
+   }
+
+   for (const entry of orderBy ?? []) {
+      const isDesc = entry.startsWith('-')
+      const field = isDesc ? entry.slice(1) : entry
+      const column = groups.find(group => group.path === field)?.alias ?? field
+      qb.orderBy(column, isDesc ? 'desc' : 'asc')
+   }
+
+   if (typeof limit === 'number') qb.limit(limit)
+   if (typeof offset === 'number') qb.offset(offset)
+
+   const rows = await qb as Record<string, unknown>[]
+   const relationKeys = new Set(groups.filter(group => group.path.includes('.')).map(group => group.path.split('.')[0]))
+
+   return rows.map((row) => {
+      const result: Record<string, unknown> = {}
+
+      for (const group of groups) {
+         assignPath(result, group.path, transformOutputColumnValue(clientName, group.definition.type, row[group.alias]))
+      }
+
+      for (const alias of Object.keys(aggregates)) {
+         const value = row[alias]
+         const definition = outputColumns[alias]
+         result[alias] = definition
+            ? transformOutputColumnValue(clientName, definition.type, value)
+            : value == null ? null : Number(value)
+      }
+
+      for (const key of relationKeys) {
+         if (isEmptyRelation(result[key])) result[key] = null
+      }
+
+      return result
+   }) as AggregateResult<S, N, G, A>
+}
+
 /**
  * Create records in a table.
+ * `afterCreate` hooks run once each record is inserted, so records inserted together by a single statement
+ * run their `beforeCreate` hooks before the `afterCreate` hooks of the batch.
  */
 export async function create<S extends Schema, N extends TableNames<S>>(
    knex: Knex,
    schema: S,
    tableName: N,
    records: TableItemInput<S, N>[],
-   options?: MutationOptions,
+   options?: CreateOptions & HookOptions,
 ) {
    if (!records.length) return []
 
    const collection = schema[tableName]
    const clientName = knex.client.config.client?.toString()
+   const batchSize = options?.batchSize ?? 500
+   if (!Number.isInteger(batchSize) || batchSize < 1) throw new Error(`Invalid batch size: ${batchSize}`)
 
    return runInTransaction(knex, options, async (trx) => {
       const created: TableItem<S, N>[] = []
+      // consecutive records with the same columns are inserted together, keeping the insertion order
+      let batch: Record<string, unknown>[] = []
+      let batchColumns = ''
+
+      async function flush() {
+         const inserted = await insertRecords(knex, tableName, collection, batch, trx)
+         batch = []
+         for (const row of inserted) {
+            transformOutputValue(schema, tableName, row, clientName)
+            created.push(row as TableItem<S, N>)
+            await options?.hooks?.run('afterCreate', tableName, trx, { record: row })
+         }
+      }
 
-      for (const record of records) {
-         const { scalar, relations } = partitionRecord(collection, record as Record<string, unknown>)
+      for (const input of records) {
+         const record = { ...input } as Record<string, unknown>
+         await options?.hooks?.run('beforeCreate', tableName, trx, { record })
+         const { scalar, relations } = partitionRecord(collection, record)
 
-         await handleBelongsToRelations(knex, schema, relations, scalar, { trx })
+         await handleBelongsToRelations(knex, schema, relations, scalar, { trx, hooks: options?.hooks })
          transformInputValue(clientName, schema, tableName, scalar)
 
+         const columns = Object.keys(scalar).sort().join()
+         if (batch.length && (columns !== batchColumns || batch.length >= batchSize)) await flush()
+
+         if (relations.every(relation => isBelongsTo(relation.definition))) {
+            batch.push(scalar)
+            batchColumns = columns
+            continue
+         }
+
+         if (batch.length) await flush()
          const inserted = await insertRecord(knex, tableName, collection, scalar, trx)
          transformOutputValue(schema, tableName, inserted, clientName)
 
-         await handleChildRelationsOnCreate(knex, schema, relations, inserted, { trx }, collection)
+         await handleChildRelationsOnCreate(knex, schema, relations, inserted, { trx, hooks: options?.hooks }, collection)
          created.push(inserted)
+         await options?.hooks?.run('afterCreate', tableName, trx, { record: inserted })
       }
 
+      if (batch.length) await flush()
       return created
    })
 }
@@ -746,14 +1532,172 @@ export function createOne<S extends Schema, N extends TableNames<S>>(
    schema: S,
    tableName: N,
    record: TableItemInput<S, N>,
-   options?: MutationOptions,
+   options?: MutationOptions & HookOptions,
 ) {
    return runInTransaction<TableItem<S, N>>(knex, options, async (trx) => {
-      const created = await create(knex, schema, tableName, [record], { trx })
+      const created = await create(knex, schema, tableName, [record], { trx, hooks: options?.hooks })
       return created[0]
    })
 }
 
+/**
+ * Split records into runs of consecutive records setting the same columns, of at most `size` records
+ */
+function chunkByColumns(rows: Record<string, unknown>[], size: number) {
+   const chunks: Record<string, unknown>[][] = []
+   let previousColumns: string | undefined
+
+   for (const row of rows) {
+      const columns = Object.keys(row).sort().join()
+      const chunk = chunks[chunks.length - 1]
+      if (chunk && columns === previousColumns && chunk.length < size) chunk.push(row)
+      else chunks.push([row])
+      previousColumns = columns
+   }
+
+   return chunks
+}
+
+/**
+ * Build the assignments of an upsert updating existing records: merged columns take the inserted values,
+ * `onUpdate` columns not merged are refreshed and the version column is incremented, like `update` does
+ */
+function getUpsertMergeValues(knex: Knex, collection: CollectionDefinition, tableName: string, columns: string[]) {
+   const isMysql = String(knex.client.config.client).includes('mysql')
+   const versionColumn = getVersionColumn(collection)
+   const values: Record<string, unknown> = {}
+
+   for (const column of columns) {
+      if (column === versionColumn) continue
+      values[column] = isMysql ? knex.raw('values(??)', [column]) : knex.raw('??', [`excluded.${column}`])
+   }
+   for (const [column, value] of Object.entries(getOnUpdateValues(collection))) {
+      if (!(column in values)) values[column] = resolveFunctionHelper(knex, value)
+   }
+   if (versionColumn) values[versionColumn] = knex.raw('?? + 1', [`${tableName}.${versionColumn}`])
+
+   return values
+}
+
+/**
+ * Get a key identifying a record by the values of its conflict columns
+ */
+function getConflictKey(row: Record<string, unknown>, conflict: string[]) {
+   return JSON.stringify(conflict.map(column => String(row[column])))
+}
+
+/**
+ * Tell which records match existing records by their conflict columns, before an upsert creates or updates them
+ */
+async function selectConflictingKeys(
+   knex: Knex,
+   schema: Schema,
+   tableName: string,
+   conflict: string[],
+   records: Record<string, unknown>[],
+   trx: Knex.Transaction,
+) {
+   const clientName = knex.client.config.client?.toString() ?? ''
+   const keys = records.map((record) => {
+      const values = Object.fromEntries(conflict.map(column => [column, record[column]]))
+      return conflict.every(column => isNonNullish(values[column])) ? transformInputValue(clientName, schema, tableName, values) : undefined
+   })
+   const existingKeys = new Set<string>()
+
+   const candidates = keys.filter(isNonNullish)
+   for (let index = 0; index < candidates.length; index += 500) {
+      const rows = await builder(knex, tableName, trx).where((where) => {
+         candidates.slice(index, index + 500).forEach(values => where.orWhere(values))
+      }).select(conflict) as Record<string, unknown>[]
+      rows.forEach(row => existingKeys.add(getConflictKey(row, conflict)))
+   }
+
+   return keys.map(values => values !== undefined && existingKeys.has(getConflictKey(values, conflict)))
+}
+
+/**
+ * Insert records or update the existing records matching their conflict columns, using the native
+ * `ON CONFLICT` / `ON DUPLICATE KEY UPDATE` clauses, and return the resulting records in order.
+ * Records matching existing records run the update hooks, unless nothing is merged, and the others run the create hooks.
+ */
+export async function upsert<S extends Schema, N extends TableNames<S>>(
+   knex: Knex,
+   schema: S,
+   tableName: N,
+   records: TableItemInput<S, N>[],
+   options?: UpsertOptions<S, N> & HookOptions,
+) {
+   if (!records.length) return []
+
+   const collection = schema[tableName]
+   const clientName = knex.client.config.client?.toString()
+   const conflict: string[] = options?.conflict?.length ? options.conflict : getPrimaryKeys(collection)
+   const merge = options?.merge ?? true
+   const softDeleteColumn = getSoftDeleteColumn(collection)
+
+   const merges = merge !== false && (!Array.isArray(merge) || merge.length > 0)
+
+   return runInTransaction(knex, options, async (trx) => {
+      const inputs = records.map(record => ({ ...record }) as Record<string, unknown>)
+      const existing = await selectConflictingKeys(knex, schema, tableName, conflict, inputs, trx)
+      const filters = inputs.map(record => Object.fromEntries(conflict.map(column => [column, { $eq: record[column] }])) as FilterQuery<S, N>)
+      const rows: Record<string, unknown>[] = []
+
+      for (const [index, record] of inputs.entries()) {
+         // records skipped by the conflict clause are left untouched and run no hooks
+         if (!existing[index]) await options?.hooks?.run('beforeCreate', tableName, trx, { record })
+         else if (merges) await options?.hooks?.run('beforeUpdate', tableName, trx, { filter: filters[index], patch: record })
+
+         const { scalar, relations } = partitionRecord(collection, record)
+         const nested = relations.find(relation => !isBelongsTo(relation.definition))
+         if (nested) throw new Error(`Nested relation "${nested.name}" is not supported by upsert on table "${tableName}"`)
+
+         await handleBelongsToRelations(knex, schema, relations, scalar, { trx, hooks: options?.hooks })
+         const missing = conflict.find(column => !isNonNullish(scalar[column]))
+         if (missing) throw new Error(`Upserted records must set the conflict column "${missing}" of table "${tableName}"`)
+
+         rows.push(transformInputValue(clientName, schema, tableName, scalar))
+      }
+
+      const upserted: Record<string, unknown>[] = []
+
+      for (const chunk of chunkByColumns(rows, 500)) {
+         const whereConflicting = (qb: Knex.QueryBuilder) => qb.where((where) => {
+            chunk.forEach(row => where.orWhere(Object.fromEntries(conflict.map(column => [column, row[column]]))))
+         })
+
+         // soft-deleted records are hidden, so updating them would return records that can't be found afterwards
+         if (softDeleteColumn) {
+            const deleted = await whereConflicting(builder(knex, tableName, trx)).whereNotNull(softDeleteColumn).first(conflict) as Record<string, unknown> | undefined
+            if (deleted) {
+               throw new Error(`Cannot upsert the soft-deleted record ${JSON.stringify(deleted)} of table "${tableName}", restore it first`)
+            }
+         }
+
+         const qb = builder(knex, tableName, trx).insert(chunk).onConflict(conflict)
+         if (!merges) await qb.ignore()
+         else await qb.merge(getUpsertMergeValues(knex, collection, tableName, merge === true ? Object.keys(chunk[0]!) : merge))
+
+         // rows skipped or updated by the conflict clause aren't returned by every driver, so they are read back
+         const results = await whereConflicting(builder(knex, tableName, trx)).select('*') as Record<string, unknown>[]
+         const resultsByKey = new Map(results.map(row => [getConflictKey(row, conflict), row]))
+
+         for (const row of chunk) {
+            const result = resultsByKey.get(getConflictKey(row, conflict))
+            if (!result) throw new Error('Failed to fetch upserted record')
+            upserted.push(transformOutputValue(schema, tableName, result, clientName) as Record<string, unknown>)
+         }
+      }
+
+      for (const [index, record] of upserted.entries()) {
+         if (!existing[index]) await options?.hooks?.run('afterCreate', tableName, trx, { record })
+         else if (merges) await options?.hooks?.run('afterUpdate', tableName, trx, { filter: filters[index], patch: inputs[index], records: [record] })
+      }
+
+      return upserted as TableItem<S, N>[]
+   })
+}
+
 /**
  * Update records in a table.
  */
@@ -762,52 +1706,71 @@ export function update<S extends Schema, N extends TableNames<S>>(
    schema: S,
    tableName: N,
    filter: FilterQuery<S, N>,
-   patch: TableItemInput<S, N>,
-   options?: MutationOptions,
+   patch: TableItemPatch<S, N>,
+   options?: MutationOptions & HookOptions & SoftDeleteQueryOptions,
 ) {
    const collection = schema[tableName]
-   const primaryKey = getPrimaryKey(collection)
+   const primaryKeys = getPrimaryKeys(collection)
    const clientName = knex.client.config.client?.toString()
 
    return runInTransaction(knex, options, async (trx) => {
+      const changes = { ...patch } as Record<string, unknown>
+      await options?.hooks?.run('beforeUpdate', tableName, trx, { filter, patch: changes })
+
       const tables = await builder(knex, tableName, trx)
          .modify((qb) => { return applyFilters(qb, knex, schema, tableName, filter) })
-         .select(primaryKey) as Record<string, unknown>[]
+         .modify((qb) => { return applySoftDeleteScope(qb, collection, tableName, options) })
+         .select(primaryKeys) as Record<string, unknown>[]
 
       if (!tables.length) return 0
 
-      const ids = tables
-         .map((row) => { return row[primaryKey] })
-         .filter((value): value is string | number => { return value !== undefined })
+      const { scalar, relations } = partitionRecord(collection, changes)
 
-      const { scalar, relations } = partitionRecord(collection, patch as Record<string, unknown>)
-
-      await handleBelongsToRelations(knex, schema, relations, scalar, { trx })
+      await handleBelongsToRelations(knex, schema, relations, scalar, { trx, hooks: options?.hooks })
+      if (Object.keys(scalar).length) {
+         // columns like `updated_at` are refreshed unless the patch sets them
+         for (const [column, value] of Object.entries(getOnUpdateValues(collection))) {
+            if (!(column in scalar)) scalar[column] = resolveFunctionHelper(knex, value)
+         }
+      }
+      // a version set by the patch is the one the records were read at, and the update increments it
+      const versionColumn = getVersionColumn(collection)
+      const expectedVersion = versionColumn ? scalar[versionColumn] : undefined
+      if (versionColumn && Object.keys(scalar).length) scalar[versionColumn] = { $inc: 1 }
+      // update operators become SQL expressions, which value transformers must not see
+      const expressions = extractUpdateExpressions(knex, getColumns(schema, collection, { includeBelongsTo: true }), scalar)
       transformInputValue(clientName, schema, tableName, scalar)
+      Object.assign(scalar, expressions)
 
       if (Object.keys(scalar).length) {
          const qb = builder(knex, tableName, trx).modify((qb) => {
             return applyFilters(qb, knex, schema, tableName, filter)
+         }).modify((qb) => {
+            return applySoftDeleteScope(qb, collection, tableName, options)
          })
-         if (clientSupportsReturning(knex)) {
-            await qb.update(scalar, '*')
+         if (versionColumn && expectedVersion !== undefined) {
+            qb.where(versionColumn, expectedVersion)
          }
-         else {
-            await qb.update(scalar)
+         const result: unknown[] | number = clientSupportsReturning(knex)
+            ? await qb.update(scalar, '*')
+            : await qb.update(scalar)
+
+         const affected = Array.isArray(result) ? result.length : result
+         if (expectedVersion !== undefined && affected < tables.length) {
+            throw new OptimisticLockError(tableName, expectedVersion)
          }
       }
 
-      const refreshed = ids.length > 0
-         ? ((await builder(knex, tableName, trx).whereIn(primaryKey, ids).select('*')) as Record<string, unknown>[])
-         : []
+      const refreshed = (await whereRecordKeys(builder(knex, tableName, trx), primaryKeys, tables).select('*')) as Record<string, unknown>[]
 
       refreshed.forEach((row) => {
          return transformOutputValue(schema, tableName, row, clientName)
       })
 
       for (const record of refreshed) {
-         await handleChildRelationsOnUpdate(knex, schema, relations, record, { trx }, collection)
+         await handleChildRelationsOnUpdate(knex, schema, relations, record, { trx, hooks: options?.hooks }, collection)
       }
+      await options?.hooks?.run('afterUpdate', tableName, trx, { filter, patch: changes, records: refreshed })
 
       return tables.length
    })
@@ -821,11 +1784,11 @@ export function updateOne<S extends Schema, N extends TableNames<S>>(
    schema: S,
    tableName: N,
    filter: FilterQuery<S, N>,
-   patch: TableItemInput<S, N>,
-   options?: MutationOptions,
+   patch: TableItemPatch<S, N>,
+   options?: MutationOptions & HookOptions,
 ) {
    return runInTransaction<TableItem<S, N> | undefined>(knex, options, async (trx) => {
-      await update(knex, schema, tableName, filter, patch, { trx })
+      await update(knex, schema, tableName, filter, patch, { trx, hooks: options?.hooks })
       return findOne(knex, schema, tableName, {
          trx,
          where: filter,
@@ -833,44 +1796,101 @@ export function updateOne<S extends Schema, N extends TableNames<S>>(
    })
 }
 
+/**
+ * Select the primary keys of the records matching a filter query
+ */
+function selectMatchingKeys<S extends Schema, N extends TableNames<S>>(
+   knex: Knex,
+   schema: S,
+   tableName: N,
+   filter: FilterQuery<S, N>,
+   trx: Knex.Transaction,
+   options?: SoftDeleteQueryOptions,
+) {
+   const collection = schema[tableName]
+   return builder(knex, tableName, trx)
+      .modify((qb) => {
+         return applyFilters(qb, knex, schema, tableName, filter)
+      })
+      .modify((qb) => {
+         return applySoftDeleteScope(qb, collection, tableName, options)
+      })
+      .select(getPrimaryKeys(collection)) as Promise<Record<string, unknown>[]>
+}
+
 /**
  * Remove records in a table.
+ * Records of collections with a soft deletion column are marked as deleted instead.
  */
 export function remove<S extends Schema, N extends TableNames<S>>(
    knex: Knex,
    schema: S,
    tableName: N,
    filter: FilterQuery<S, N>,
-   options?: MutationOptions,
+   options?: MutationOptions & HookOptions,
 ) {
    return runInTransaction(knex, options, async (trx) => {
       const collection = schema[tableName]
-      const primaryKey = getPrimaryKey(collection)
-
-      const tables = (await builder(knex, tableName, trx)
-         .modify((qb) => {
-            return applyFilters(qb, knex, schema, tableName, filter)
-         })
-         .select(primaryKey)) as Record<string, unknown>[]
+      const softDeleteColumn = getSoftDeleteColumn(collection)
+      await options?.hooks?.run('beforeRemove', tableName, trx, { filter })
+      const tables = await selectMatchingKeys(knex, schema, tableName, filter, trx)
 
       if (!tables.length) return 0
 
-      const ids = tables
-         .map((row) => {
-            return row[primaryKey]
-         })
-         .filter((value): value is string | number => {
-            return value !== undefined
-         })
-
-      if (ids.length > 0) {
-         await builder(knex, tableName, trx).whereIn(primaryKey, ids).del()
+      const qb = whereRecordKeys(builder(knex, tableName, trx), getPrimaryKeys(collection), tables)
+      if (softDeleteColumn) {
+         await qb.update({ [softDeleteColumn]: knex.fn.now() })
+      }
+      else {
+         await qb.del()
       }
 
+      await options?.hooks?.run('afterRemove', tableName, trx, { filter, count: tables.length })
       return tables.length
    })
 }
 
+/**
+ * Permanently remove records in a table, including soft-deleted ones.
+ */
+export function forceRemove<S extends Schema, N extends TableNames<S>>(
+   knex: Knex,
+   schema: S,
+   tableName: N,
+   filter: FilterQuery<S, N>,
+   options?: MutationOptions & HookOptions,
+) {
+   return runInTransaction(knex, options, async (trx) => {
+      await options?.hooks?.run('beforeRemove', tableName, trx, { filter })
+      const tables = await selectMatchingKeys(knex, schema, tableName, filter, trx, { withDeleted: true })
+
+      if (!tables.length) return 0
+
+      await whereRecordKeys(builder(knex, tableName, trx), getPrimaryKeys(schema[tableName]), tables).del()
+
+      await options?.hooks?.run('afterRemove', tableName, trx, { filter, count: tables.length })
+      return tables.length
+   })
+}
+
+/**
+ * Restore soft-deleted records in a table.
+ * Runs as an update clearing the soft deletion column, so update hooks and `onUpdate` columns apply.
+ */
+export function restore<S extends Schema, N extends TableNames<S>>(
+   knex: Knex,
+   schema: S,
+   tableName: N,
+   filter: FilterQuery<S, N>,
+   options?: MutationOptions & HookOptions,
+) {
+   const collection = schema[tableName]
+   const softDeleteColumn = getSoftDeleteColumn(collection)
+   if (!softDeleteColumn) throw new Error(`Table "${tableName}" has no soft deletion column`)
+
+   return update(knex, schema, tableName, filter, { [softDeleteColumn]: null } as TableItemPatch<S, N>, { ...options, onlyDeleted: true })
+}
+
 /**
  * Remove one record in a table.
  */
@@ -879,12 +1899,12 @@ export function removeOne<S extends Schema, N extends TableNames<S>>(
    schema: S,
    tableName: N,
    filter: FilterQuery<S, N>,
-   options?: MutationOptions,
+   options?: MutationOptions & HookOptions,
 ) {
    return runInTransaction<TableItem<S, N> | undefined>(knex, options, async (trx) => {
       const record = await findOne(knex, schema, tableName, { trx, where: filter })
       if (!record) return
-      await remove(knex, schema, tableName, filter, { trx })
+      await remove(knex, schema, tableName, filter, { trx, hooks: options?.hooks })
       return record as TableItem<S, N>
    })
 }
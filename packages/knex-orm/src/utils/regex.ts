@@ -0,0 +1,104 @@
+/** GLOB classes equivalent to the regular expression shorthand classes */
+const GLOB_CLASSES: Record<string, string> = {
+   d: '[0-9]',
+   w: '[0-9A-Za-z_]',
+   s: '[ \t\n\r\f\v]',
+}
+
+/** Most GLOB patterns a regular expression may expand to, as every alternative of a group multiplies them */
+const MAX_GLOB_PATTERNS = 64
+
+/**
+ * Escape the GLOB wildcards of a literal character
+ */
+function escapeGlob(char: string) {
+   return char === '*' || char === '?' || char === '[' ? `[${char}]` : char
+}
+
+/**
+ * Translate a regular expression into case-sensitive GLOB patterns, a string matching the expression when it matches any of them.
+ * SQLite's GLOB has no quantifiers, so only literals, `.`, `.*`, `.+`, character classes, `\d`, `\w`, `\s`,
+ * anchors and alternations (including unquantified groups) are supported.
+ */
+export function regexToGlobPatterns(pattern: string) {
+   let index = 0
+
+   const unsupported = () => new Error(`Regular expression "${pattern}" is not supported by the sqlite3 driver: it only supports literals, ".", ".*", ".+", character classes, anchors and alternations`)
+
+   /**
+    * Read the GLOB alternatives of the sequence ending at the next `|`, `)` or the end of the pattern
+    */
+   const parseSequence = (depth: number) => {
+      let globs = ['']
+      const append = (options: string[]) => {
+         globs = globs.flatMap(glob => options.map(option => glob + option))
+         if (globs.length > MAX_GLOB_PATTERNS) throw unsupported()
+      }
+
+      const anchoredStart = depth === 0 && pattern[index] === '^'
+      if (anchoredStart) index++
+      let anchoredEnd = false
+
+      while (index < pattern.length && pattern[index] !== '|' && pattern[index] !== ')') {
+         const char = pattern[index++]!
+
+         if (char === '$' && depth === 0 && (index === pattern.length || pattern[index] === '|')) {
+            anchoredEnd = true
+         }
+         else if (char === '(') {
+            if (pattern.startsWith('?:', index)) index += 2
+            const options = parseAlternation(depth + 1)
+            if (pattern[index++] !== ')') throw unsupported()
+            append(options)
+         }
+         else if (char === '.') {
+            const quantifier = pattern[index]
+            if (quantifier === '*' || quantifier === '+') index++
+            append([quantifier === '*' ? '*' : quantifier === '+' ? '?*' : '?'])
+         }
+         else if (char === '\\') {
+            const escaped = pattern[index++]
+            if (escaped === undefined || (/[a-z0-9]/i.test(escaped) && !(escaped in GLOB_CLASSES))) throw unsupported()
+            append([GLOB_CLASSES[escaped] ?? escapeGlob(escaped)])
+         }
+         else if (char === '[') {
+            const end = pattern.indexOf(']', index + 1)
+            const body = pattern.slice(index, end)
+            if (end === -1 || body.includes('\\') || body.includes('[')) throw unsupported()
+            index = end + 1
+            append([`[${body}]`])
+         }
+         else if ('^$*+?{}'.includes(char)) {
+            throw unsupported()
+         }
+         else {
+            append([escapeGlob(char)])
+         }
+
+         // quantifiers only follow `.`, handled above
+         const next = pattern[index]
+         if (next && '*+?{'.includes(next)) throw unsupported()
+      }
+
+      return depth === 0
+         ? globs.map(glob => `${anchoredStart ? '' : '*'}${glob}${anchoredEnd ? '' : '*'}`)
+         : globs
+   }
+
+   /**
+    * Read the GLOB alternatives of `|` separated sequences
+    */
+   const parseAlternation = (depth: number) => {
+      const globs = parseSequence(depth)
+      while (pattern[index] === '|') {
+         index++
+         globs.push(...parseSequence(depth))
+      }
+      if (globs.length > MAX_GLOB_PATTERNS) throw unsupported()
+      return globs
+   }
+
+   const globs = parseAlternation(0)
+   if (index < pattern.length) throw unsupported()
+   return globs
+}
@@ -1,9 +1,33 @@
-import type { NormalizedSchemaDefinition, Schema } from '@/types/schema'
-import { defineCollection } from './collections'
+import type { ManyToManyRelationDefinition } from '@/types/relations'
+import type { CollectionDefinition, NormalizedSchemaDefinition, Schema } from '@/types/schema'
+import { defineCollection, getPrimaryKey } from './collections'
+import { isManyToMany } from './relations'
 
 /**
- * Define a schema and automatically insert defaults when possible
+ * Create the junction collection of a many-to-many relation, keyed by both foreign keys
+ */
+function createJunctionCollection(sourceTable: string, source: CollectionDefinition, relation: ManyToManyRelationDefinition) {
+   const { sourceFk, tableFk } = relation.through
+
+   return {
+      [sourceFk]: { type: 'belongs-to', table: sourceTable, foreignKey: getPrimaryKey(source), primary: true, nullable: false },
+      [tableFk]: { type: 'belongs-to', table: relation.table, foreignKey: relation.foreignKey, primary: true, nullable: false },
+   } satisfies CollectionDefinition
+}
+
+/**
+ * Define a schema and automatically insert defaults when possible.
+ * The junction collections of many-to-many relations are generated when they aren't declared.
  */
 export function defineSchema<const S extends Schema>(input: S) {
-   return Object.fromEntries(Object.entries(input).map(([key, value]) => [key, defineCollection(value)])) as NormalizedSchemaDefinition<S>
+   const schema = Object.fromEntries(Object.entries(input).map(([key, value]) => [key, defineCollection(value)])) as Schema
+
+   for (const [tableName, collection] of Object.entries(input)) {
+      for (const field of Object.values(collection)) {
+         if (!isManyToMany(field) || field.through.table in schema) continue
+         schema[field.through.table] = defineCollection(createJunctionCollection(tableName, collection, field))
+      }
+   }
+
+   return schema as NormalizedSchemaDefinition<S>
 }
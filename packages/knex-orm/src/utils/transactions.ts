@@ -1,8 +1,45 @@
 import type { Knex } from 'knex'
-import type { MutationOptions } from '@/types/orm'
+import type { MutationOptions, RetryPolicy } from '@/types/orm'
 
 /**
- * Run a transaction and return the result
+ * Error codes of deadlocks and serialization failures by driver, whose transactions can succeed when run again
+ */
+const RETRYABLE_ERROR_CODES: Record<string, string[]> = {
+   'pg': ['40001', '40P01'],
+   'mysql': ['ER_LOCK_DEADLOCK'],
+   'mysql2': ['ER_LOCK_DEADLOCK'],
+   'sqlite3': ['SQLITE_BUSY'],
+   'better-sqlite3': ['SQLITE_BUSY'],
+}
+
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+   maxAttempts: 3,
+   backoff: attempt => 50 * 2 ** (attempt - 1),
+}
+
+/**
+ * Check if a transaction failed with a deadlock or serialization error of the driver
+ */
+function isRetryableError(knex: Knex, error: unknown) {
+   const code = (error as { code?: unknown } | undefined)?.code
+   const codes = RETRYABLE_ERROR_CODES[String(knex.client.config.client)] ?? []
+   return typeof code === 'string' && codes.includes(code)
+}
+
+/**
+ * Resolve the retry policy of a transaction, which runs once when it is not set
+ */
+function resolveRetryPolicy(retry: MutationOptions['retry']): Required<RetryPolicy> {
+   if (!retry) return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 }
+
+   const policy = { ...DEFAULT_RETRY_POLICY, ...retry === true ? {} : retry }
+   if (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1) throw new Error(`Invalid retry attempts: ${policy.maxAttempts}`)
+   return policy
+}
+
+/**
+ * Run a transaction and return the result.
+ * Transactions failing with a retryable error are run again following the retry policy, unless they are nested.
  */
 export async function runInTransaction<R>(
    knex: Knex,
@@ -12,5 +49,18 @@ export async function runInTransaction<R>(
    if (options?.trx) {
       return work(options.trx)
    }
-   return knex.transaction(work)
+
+   const config = options?.isolationLevel ? { isolationLevel: options.isolationLevel } : undefined
+   const { maxAttempts, backoff } = resolveRetryPolicy(options?.retry)
+
+   for (let attempt = 1; ; attempt++) {
+      try {
+         return await knex.transaction(work, config)
+      }
+      catch (error) {
+         if (attempt >= maxAttempts || knex.isTransaction || !isRetryableError(knex, error)) throw error
+         const delay = typeof backoff === 'function' ? backoff(attempt) : backoff
+         await new Promise(resolve => setTimeout(resolve, delay))
+      }
+   }
 }
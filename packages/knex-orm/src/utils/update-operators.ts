@@ -0,0 +1,96 @@
+import type { Knex } from 'knex'
+import type { DataTypes } from './data-types'
+import type { ColumnDefinition } from '@/types/columns'
+import z from 'zod'
+import { getDataTypeGroup } from './data-types'
+import { jsonArrayAppendExpression } from './json'
+
+interface UpdateOperatorDefinition {
+   /** Check if the operator is available on a data type */
+   supports: (type: DataTypes) => boolean
+   /** Create the operand schema */
+   validate: (type: DataTypes) => z.ZodTypeAny
+   /** Build the SQL expression of the updated value from the current one */
+   apply: (knex: Knex, column: string, value: any, type: DataTypes) => Knex.Raw
+}
+
+/**
+ * Update operators, computing the new value of a column in SQL to avoid read-modify-write cycles.
+ * Null values count as `0`, an empty string or an empty JSON array.
+ */
+export const UPDATE_OPERATORS = {
+   $inc: {
+      supports: type => getDataTypeGroup(type) === 'number',
+      validate: () => z.number(),
+      apply: (knex, column, value: number) => knex.raw('coalesce(??, 0) + ?', [column, value]),
+   },
+   $dec: {
+      supports: type => getDataTypeGroup(type) === 'number',
+      validate: () => z.number(),
+      apply: (knex, column, value: number) => knex.raw('coalesce(??, 0) + ?', [column, -value]),
+   },
+   $append: {
+      supports: type => type === 'text' || type === 'varchar' || type === 'char' || type === 'json' || type === 'jsonb',
+      // JSON columns append an element to their array
+      validate: type => type === 'json' || type === 'jsonb' ? z.unknown() : z.string(),
+      apply: (knex, column, value: unknown, type) => {
+         if (type === 'json' || type === 'jsonb') return jsonArrayAppendExpression(knex, column, type, value)
+         return String(knex.client.config.client).includes('mysql')
+            ? knex.raw('concat(coalesce(??, \'\'), ?)', [column, value])
+            : knex.raw('coalesce(??, \'\') || ?', [column, value])
+      },
+   },
+} satisfies Record<string, UpdateOperatorDefinition>
+
+export type UpdateOperator = keyof typeof UPDATE_OPERATORS
+
+/**
+ * Get the update operators available on a data type
+ */
+export function getUpdateOperators(type: DataTypes) {
+   return (Object.keys(UPDATE_OPERATORS) as UpdateOperator[]).filter(operator => UPDATE_OPERATORS[operator].supports(type))
+}
+
+/**
+ * Get the operator of a patch value if it is an update operation (`{ $inc: 1 }`).
+ * Other objects are literal values of JSON columns.
+ */
+export function getUpdateOperation(value: unknown) {
+   if (!value || typeof value !== 'object' || Array.isArray(value) || value instanceof Date) return
+
+   const [operator, ...rest] = Object.keys(value)
+   if (!operator || rest.length || !(operator in UPDATE_OPERATORS)) return
+   return operator as UpdateOperator
+}
+
+/**
+ * Get the SQL expression of a patch value if it is an update operation
+ */
+function getUpdateExpression(knex: Knex, column: string, definition: ColumnDefinition, value: unknown) {
+   const operator = getUpdateOperation(value)
+   if (!operator) return
+
+   const updateOperator: UpdateOperatorDefinition = UPDATE_OPERATORS[operator]
+   if (!updateOperator.supports(definition.type)) {
+      throw new Error(`Update operator "${operator}" is not supported on column "${column}" of type "${definition.type}"`)
+   }
+   return updateOperator.apply(knex, column, (value as Record<string, unknown>)[operator], definition.type)
+}
+
+/**
+ * Remove the update operations from a patch and return their SQL expressions by column
+ */
+export function extractUpdateExpressions(knex: Knex, columns: Record<string, ColumnDefinition>, scalar: Record<string, unknown>) {
+   const expressions: Record<string, Knex.Raw> = {}
+
+   for (const [column, value] of Object.entries(scalar)) {
+      const definition = columns[column]
+      const expression = definition && getUpdateExpression(knex, column, definition, value)
+      if (expression) {
+         expressions[column] = expression
+         delete scalar[column]
+      }
+   }
+
+   return expressions
+}
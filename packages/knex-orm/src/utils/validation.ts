@@ -2,11 +2,17 @@ import type { Operator } from './operators'
 import type { ColumnDefinition } from '@/types/columns'
 import type { FieldName } from '@/types/fields'
 import type { FindQueryParams } from '@/types/query'
-import type { Schema, TableItemInput, TableNames } from '@/types/schema'
+import type { ManyToManyRelationDefinition, RelationDefinition } from '@/types/relations'
+import type { Schema, TableItemInput, TableItemPatch, TableNames } from '@/types/schema'
 import z from 'zod'
 import { globalCache } from './cache'
-import { getCollection, getColumns, getRelations } from './collections'
-import { getDataTypeOperators, getDataTypeValidator } from './data-types'
+import { getCollection, getColumns, getPivotColumns, getPrimaryKey, getRelations } from './collections'
+import { getDataTypeGroup, getDataTypeOperators, getDataTypeValidator } from './data-types'
+import { getCustomOperator } from './operators'
+import { isBelongsTo, isHasMany, isHasOne, isManyToMany } from './relations'
+import { getUpdateOperation, getUpdateOperators, UPDATE_OPERATORS } from './update-operators'
+
+const jsonPathSchema = z.array(z.union([z.string(), z.number().int().min(0)])).min(1)
 
 const SPECIAL_OPERATOR_FACTORIES: Partial<Record<Operator, (base: z.ZodTypeAny) => z.ZodTypeAny>> = {
    $in: base => z.array(base),
@@ -15,6 +21,29 @@ const SPECIAL_OPERATOR_FACTORIES: Partial<Record<Operator, (base: z.ZodTypeAny)
    $nbetween: base => z.tuple([base, base]),
    $null: () => z.union([z.boolean(), z.undefined()]),
    $nnull: () => z.union([z.boolean(), z.undefined()]),
+   $icontains: () => z.string(),
+   $istartsWith: () => z.string(),
+   $iendsWith: () => z.string(),
+   $ilike: () => z.string(),
+   $regex: () => z.string().refine(isValidRegex, { message: 'Invalid regular expression' }),
+   $hasKey: () => z.union([z.string(), jsonPathSchema]),
+   $containsJson: () => z.union([z.record(z.string(), z.unknown()), z.array(z.unknown())]),
+}
+
+/** Operators comparing a whole JSON column, the others only apply to the value at a `$path` */
+const JSON_COLUMN_OPERATORS: Operator[] = ['$null', '$nnull', '$hasKey', '$containsJson']
+
+/**
+ * Check if a pattern compiles as a regular expression
+ */
+function isValidRegex(pattern: string) {
+   try {
+      void new RegExp(pattern)
+      return true
+   }
+   catch {
+      return false
+   }
 }
 
 /**
@@ -41,19 +70,59 @@ function createColumnValueSchema(tableName: string, columnName: string, definiti
 function createFieldFilterSchema(tableName: string, columnName: string, definition: ColumnDefinition) {
    const base = createColumnValueSchema(tableName, columnName, definition)
    const operators = getDataTypeOperators(definition.type)
+   const isJson = getDataTypeGroup(definition.type) === 'json'
+   // operands of JSON columns may target a `$path` inside the value, which the column schema doesn't describe
+   const operandBase = isJson ? z.any() : base
 
    const operatorShape: Record<string, z.ZodTypeAny> = {}
    for (const operator of operators) {
+      // searching needs the full-text index created by the migrations
+      if (operator === '$search' && !definition.fullText) continue
+
+      const custom = getCustomOperator(operator)
       const factory = SPECIAL_OPERATOR_FACTORIES[operator]
-      operatorShape[operator] = (factory ? factory(base) : base).optional()
+      const operandSchema = custom?.validate
+         ? custom.validate({ z, base: operandBase, columnName, definition, tableName })
+         : factory ? factory(operandBase) : operandBase
+      operatorShape[operator] = operandSchema.optional()
    }
 
-   const operatorObject = z.object(operatorShape).strict().refine(
+   if (isJson) {
+      // comparing the raw column to a value isn't valid SQL for JSON on every database
+      const columnShape = Object.fromEntries(Object.entries(operatorShape).filter(([operator]) => JSON_COLUMN_OPERATORS.includes(operator as Operator)))
+      return z.union([
+         z.null(),
+         createOperatorObjectSchema(columnShape),
+         createOperatorObjectSchema({ ...operatorShape, $path: jsonPathSchema }),
+      ])
+   }
+
+   return z.union([base, createOperatorObjectSchema(operatorShape)])
+}
+
+/**
+ * Create Zod schema for an operator object, requiring at least one operator
+ */
+function createOperatorObjectSchema(shape: Record<string, z.ZodTypeAny>) {
+   return z.object(shape).strict().refine(
       value => Object.keys(value).length > 0,
       { message: 'At least one operator is required when using operator objects' },
    )
+}
 
-   return z.union([base, operatorObject])
+/**
+ * Create Zod schema for quantifier filters over a has-many or many-to-many relation
+ */
+function createQuantifierFilterSchema(tableName: string, relationName: string, relatedFilter: z.ZodTypeAny) {
+   return z.object({
+      $some: relatedFilter.optional(),
+      $every: relatedFilter.optional(),
+      $none: relatedFilter.optional(),
+      $count: createFieldFilterSchema(tableName, `${relationName}.$count`, { type: 'integer' }).optional(),
+   }).strict().refine(
+      value => Object.keys(value).length > 0,
+      { message: 'At least one quantifier is required when using quantifier filters' },
+   )
 }
 
 /**
@@ -86,9 +155,13 @@ export function getWhereValidation<S extends Schema, N extends TableNames<S>>(
       }
 
       for (const [relationName, definition] of Object.entries(relations)) {
-         shape[relationName] = (definition.table === tableName
+         const relatedFilter = definition.table === tableName
             ? selfRef
             : z.lazy(() => getWhereValidation(schema, definition.table, nextStack))
+
+         shape[relationName] = (isHasMany(definition) || isManyToMany(definition)
+            ? z.union([createQuantifierFilterSchema(tableName, relationName, relatedFilter), relatedFilter])
+            : relatedFilter
          ).optional()
       }
 
@@ -112,6 +185,11 @@ export interface PayloadSchemaOptions {
     * Set to false to enforce required columns
     */
    partial?: boolean
+   /**
+    * When true, columns also accept update operations (`{ $inc: 1 }`) to mirror {@link TableItemPatch}
+    * Only set it to validate update patches, create and upsert payloads insert operations as literal values
+    */
+   update?: boolean
 }
 
 /**
@@ -125,7 +203,8 @@ function buildPayloadSchema<S extends Schema, N extends TableNames<S>>(
    stack: string[] = [],
 ) {
    const partial = options.partial ?? true
-   const cacheKey = `payload:${tableName}:${partial ? 'partial' : 'strict'}`
+   const update = options.update ?? false
+   const cacheKey = `payload:${tableName}:${partial ? 'partial' : 'strict'}${update ? ':update' : ''}`
 
    const selfRef = z.lazy(() => globalCache.useCache('payloadSchema', cacheKey, () => z.object({}).strict()))
    if (stack.includes(cacheKey)) return selfRef
@@ -139,24 +218,75 @@ function buildPayloadSchema<S extends Schema, N extends TableNames<S>>(
       const shape: Record<string, z.ZodTypeAny> = {}
 
       for (const [columnName, definition] of Object.entries(columns)) {
-         const columnSchema = createColumnValueSchema(tableName, columnName, definition)
-         shape[columnName] = (partial || !isColumnRequired(definition))
-            ? columnSchema.optional()
-            : columnSchema
+         let columnSchema = createColumnValueSchema(tableName, columnName, definition)
+         if (update) {
+            const updateSchemas = getUpdateOperators(definition.type).map(operator => z.object({ [operator]: UPDATE_OPERATORS[operator].validate(definition.type) }).strict())
+            columnSchema = z.union([
+               // JSON values must not be mistaken for operations the column doesn't support
+               columnSchema.refine(value => !getUpdateOperation(value), { message: `Update operator is not supported on column "${columnName}" of type "${definition.type}"` }),
+               ...updateSchemas,
+            ])
+         }
+         shape[columnName] = partial || !isColumnRequired(definition) ? columnSchema.optional() : columnSchema
       }
 
       for (const [relationName, definition] of Object.entries(relations)) {
          const relatedSchema = definition.table === tableName
             ? selfRef
-            : z.lazy(() => buildPayloadSchema(schema, definition.table, options, nextStack))
-
-         shape[relationName] = z.union([relatedSchema, z.array(relatedSchema)]).optional()
+            : z.lazy(() => {
+                  const payloadSchema = buildPayloadSchema(schema, definition.table, options, nextStack)
+                  return isManyToMany(definition) && payloadSchema instanceof z.ZodObject
+                     ? payloadSchema.extend({ $pivot: createPivotSchema(schema, definition).optional() })
+                     : payloadSchema
+               })
+
+         shape[relationName] = z.union([
+            relatedSchema,
+            z.array(relatedSchema),
+            z.lazy(() => createRelationMutationSchema(schema, definition, relatedSchema)),
+         ]).optional()
       }
 
       return z.object(shape).strict()
    })
 }
 
+/**
+ * Create the schema of the junction columns written with a many-to-many payload (`$pivot`)
+ */
+function createPivotSchema<S extends Schema>(schema: S, definition: ManyToManyRelationDefinition) {
+   const shape: Record<string, z.ZodTypeAny> = {}
+   for (const [columnName, column] of Object.entries(getPivotColumns(schema, definition))) {
+      shape[columnName] = createColumnValueSchema(definition.through.table, columnName, column).optional()
+   }
+   return z.object(shape).strict()
+}
+
+/**
+ * Create the schema of the nested operations of a relation (`{ $connect: [1] }`)
+ */
+function createRelationMutationSchema<S extends Schema>(schema: S, definition: RelationDefinition, relatedSchema: z.ZodTypeAny) {
+   const collection = getCollection(schema, definition.table)
+   const primaryKey = getPrimaryKey(collection)
+   const keySchema = createColumnValueSchema(definition.table, primaryKey, getColumns(schema, collection)[primaryKey]!)
+   const recordSchema = z.union([keySchema, relatedSchema])
+
+   if (isHasOne(definition)) {
+      return z.object({
+         $connect: recordSchema.optional(),
+         $disconnect: z.literal(true).optional(),
+         $delete: z.literal(true).optional(),
+      }).strict()
+   }
+
+   return z.object({
+      $set: z.array(recordSchema).optional(),
+      $disconnect: z.array(keySchema).optional(),
+      $delete: z.union([z.array(keySchema), z.object({ where: getWhereValidation(schema, definition.table) }).strict()]).optional(),
+      $connect: z.array(recordSchema).optional(),
+   }).strict()
+}
+
 /**
  * Collect all column paths recursively, including nested relations
  */
@@ -176,6 +306,10 @@ function collectColumnPaths<S extends Schema>(schema: S, tableName: TableNames<S
       const relationPrefix = prefix ? `${prefix}.${relationName}` : relationName
       const relationPaths = collectColumnPaths(schema, definition.table, relationPrefix, nextStack)
       paths.push(...relationPaths)
+
+      if (isManyToMany(definition)) {
+         paths.push(...Object.keys(getPivotColumns(schema, definition)).map(columnName => `${relationPrefix}.$pivot.${columnName}`))
+      }
    }
 
    return Array.from(new Set(paths)).sort()
@@ -189,6 +323,33 @@ function getColumnPaths<S extends Schema, N extends TableNames<S>>(schema: S, ta
    return globalCache.useCache('columnPaths', cacheKey, () => collectColumnPaths(schema, tableName))
 }
 
+/**
+ * Collect the sortable column paths, following belongs-to and has-one relations up to three levels deep
+ */
+function collectOrderByPaths<S extends Schema>(schema: S, tableName: TableNames<S>, prefix = '', depth = 0) {
+   const collection = getCollection(schema, tableName)
+   const paths = Object.keys(getColumns(schema, collection, { includeBelongsTo: true }))
+      .map(columnName => prefix ? `${prefix}.${columnName}` : columnName)
+
+   if (depth < 3) {
+      for (const [relationName, definition] of Object.entries(getRelations(collection, { includeBelongsTo: true }))) {
+         if (!isBelongsTo(definition) && !isHasOne(definition)) continue
+         const relationPrefix = prefix ? `${prefix}.${relationName}` : relationName
+         paths.push(...collectOrderByPaths(schema, definition.table, relationPrefix, depth + 1))
+      }
+   }
+
+   return paths
+}
+
+/**
+ * Get all sortable column paths for a table (cached for performance)
+ */
+function getOrderByPaths<S extends Schema, N extends TableNames<S>>(schema: S, tableName: N) {
+   const cacheKey = `orderBy:${tableName}`
+   return globalCache.useCache('orderByPaths', cacheKey, () => Array.from(new Set(collectOrderByPaths(schema, tableName))).sort())
+}
+
 /**
  * Create a column selection schema
  */
@@ -212,7 +373,7 @@ function createColumnSelectionSchema<S extends Schema, N extends TableNames<S>>(
  * Create an order by schema
  */
 function createOrderBySchema<S extends Schema, N extends TableNames<S>>(schema: S, tableName: N) {
-   const allowedPaths = new Set(getColumnPaths(schema, tableName))
+   const allowedPaths = new Set(getOrderByPaths(schema, tableName))
    const allowedList = Array.from(allowedPaths).join(', ')
    return z.array(z.string()).superRefine((values, ctx) => {
       values.forEach((value, index) => {
@@ -228,6 +389,40 @@ function createOrderBySchema<S extends Schema, N extends TableNames<S>>(schema:
    })
 }
 
+/**
+ * Create a per-relation options schema (`with`)
+ */
+function createWithSchema<S extends Schema, N extends TableNames<S>>(schema: S, tableName: N): z.ZodTypeAny {
+   const relations = getRelations(getCollection(schema, tableName), { includeBelongsTo: true })
+   const shape: Record<string, z.ZodTypeAny> = {}
+
+   for (const [relationName, definition] of Object.entries(relations)) {
+      shape[relationName] = z.lazy(() => z.object({
+         where: getWhereValidation(schema, definition.table).optional(),
+         orderBy: createOrderBySchema(schema, definition.table).optional(),
+         limit: z.number().int().positive().optional(),
+         offset: z.number().int().min(0).optional(),
+         with: createWithSchema(schema, definition.table).optional(),
+      }).strict()).optional()
+   }
+
+   return z.object(shape).strict()
+}
+
+type RelationOptionsInput = Record<string, { with?: RelationOptionsInput } | undefined>
+
+/**
+ * Collect the relation paths of per-relation options (`with`) that aren't selected in `columns` (recursive)
+ */
+function collectUnselectedRelations(columns: readonly string[], relationOptions: RelationOptionsInput, prefix = ''): string[] {
+   return Object.entries(relationOptions).flatMap(([relationName, options]) => {
+      if (!options) return []
+      const path = prefix ? `${prefix}.${relationName}` : relationName
+      if (!columns.some(column => column.startsWith(`${path}.`))) return [path]
+      return options.with ? collectUnselectedRelations(columns, options.with, path) : []
+   })
+}
+
 /**
  * Create a collection name schema
  */
@@ -264,7 +459,20 @@ export function getQueryParamsSchema<S extends Schema, N extends TableNames<S>>(
       orderBy: orderBySchema,
       limit: z.number().int().positive().optional(),
       offset: z.number().int().min(0).optional(),
-   }).strict() as z.ZodType<FindQueryParams<S, N>>
+      strategy: z.enum(['join', 'select-in']).optional(),
+      with: createWithSchema(schema, tableName).optional(),
+      withDeleted: z.boolean().optional(),
+      onlyDeleted: z.boolean().optional(),
+   }).strict().superRefine((params, ctx) => {
+      if (!params.with) return
+      for (const path of collectUnselectedRelations(params.columns ?? [], params.with as RelationOptionsInput)) {
+         ctx.addIssue({
+            code: 'custom',
+            message: `Cannot apply "with" options to "${path}": the relation is not selected in columns`,
+            path: ['with'],
+         })
+      }
+   }) as z.ZodType<FindQueryParams<S, N>>
 }
 
 /**
@@ -30,6 +30,33 @@ export function defineValueTransformer(driver: string | string[] | '*', type: Co
    })
 }
 
+/**
+ * Serialize JSON values to text: SQLite drivers can't bind objects (knex only serializes them in single-row inserts),
+ * Postgres drivers bind arrays as Postgres arrays, and strings must be quoted to be valid JSON
+ */
+function serializeJson(value: unknown) {
+   if (value == null || value instanceof Date || ArrayBuffer.isView(value)) return value
+   return JSON.stringify(value)
+}
+
+/**
+ * Parse the JSON text SQLite returns, keeping text that was stored without being serialized
+ */
+function deserializeSqliteJson(value: unknown) {
+   if (typeof value !== 'string') return value
+   try {
+      return JSON.parse(value)
+   }
+   catch {
+      return value
+   }
+}
+
+defineValueTransformer('*', 'json', { serialize: serializeJson })
+defineValueTransformer('*', 'jsonb', { serialize: serializeJson })
+defineValueTransformer(['sqlite3', 'better-sqlite3'], 'json', { deserialize: deserializeSqliteJson })
+defineValueTransformer(['sqlite3', 'better-sqlite3'], 'jsonb', { deserialize: deserializeSqliteJson })
+
 /**
  * Transform column input value
  */
@@ -0,0 +1,142 @@
+import { describe, expect, expectTypeOf, it } from 'vitest'
+import { createTestUsers, createTestUserWithRelations, setupQueryTests } from './utils'
+
+setupQueryTests('aggregate query tests (%s)', (getOrm) => {
+   describe('without grouping', () => {
+      it('should compute aggregates over the whole table', async () => {
+         const orm = getOrm()
+         await createTestUsers(orm, [
+            { email: 'user1@example.com', status: 'active' },
+            { email: 'user2@example.com', status: 'active' },
+            { email: 'user3@example.com', status: null },
+         ])
+
+         const results = await orm.aggregate('users', {
+            aggregates: {
+               total: { $count: '*' },
+               withStatus: { $count: 'status' },
+               statuses: { $countDistinct: 'status' },
+               idSum: { $sum: 'id' },
+               idAvg: { $avg: 'id' },
+               firstEmail: { $min: 'email' },
+               lastEmail: { $max: 'email' },
+            },
+         })
+
+         expect(results).toEqual([{
+            total: 3,
+            withStatus: 2,
+            statuses: 1,
+            idSum: 6,
+            idAvg: 2,
+            firstEmail: 'user1@example.com',
+            lastEmail: 'user3@example.com',
+         }])
+      })
+
+      it('should apply where filters before aggregating', async () => {
+         const orm = getOrm()
+         await createTestUsers(orm, [
+            { email: 'user1@example.com', status: 'active' },
+            { email: 'user2@example.com', status: 'inactive' },
+            { email: 'user3@example.com', status: 'active' },
+         ])
+
+         const results = await orm.aggregate('users', {
+            where: { status: { $eq: 'active' } },
+            aggregates: { total: { $count: '*' } },
+         })
+
+         expect(results).toEqual([{ total: 2 }])
+      })
+
+      it('should not count records twice when filtering on has-many relations', async () => {
+         const orm = getOrm()
+         const alice = await createTestUserWithRelations(orm, {
+            email: 'alice@example.com',
+            posts: [{ title: 'Post 1', slug: 'post-1' }, { title: 'Post 2', slug: 'post-2' }],
+         })
+         await createTestUserWithRelations(orm, { email: 'bob@example.com' })
+
+         const results = await orm.aggregate('users', {
+            where: { posts: { title: { $startsWith: 'Post' } } },
+            aggregates: { total: { $count: '*' }, idSum: { $sum: 'id' } },
+         })
+
+         expect(results).toEqual([{ total: 1, idSum: alice.id }])
+      })
+   })
+
+   describe('grouping', () => {
+      it('should group by columns and order by aggregates', async () => {
+         const orm = getOrm()
+         await createTestUsers(orm, [
+            { email: 'user1@example.com', status: 'active' },
+            { email: 'user2@example.com', status: 'inactive' },
+            { email: 'user3@example.com', status: 'active' },
+         ])
+
+         const results = await orm.aggregate('users', {
+            groupBy: ['status'],
+            aggregates: { total: { $count: '*' } },
+            orderBy: ['-total'],
+         })
+
+         expect(results).toEqual([
+            { status: 'active', total: 2 },
+            { status: 'inactive', total: 1 },
+         ])
+      })
+
+      it('should group by belongs-to relation paths', async () => {
+         const orm = getOrm()
+         await createTestUserWithRelations(orm, {
+            email: 'alice@example.com',
+            posts: [{ title: 'Post 1', slug: 'post-1' }, { title: 'Post 2', slug: 'post-2' }],
+         })
+         await createTestUserWithRelations(orm, {
+            email: 'bob@example.com',
+            posts: [{ title: 'Post 3', slug: 'post-3' }],
+         })
+
+         const results = await orm.aggregate('posts', {
+            groupBy: ['author.email'],
+            aggregates: { total: { $count: '*' } },
+            orderBy: ['author.email'],
+         })
+
+         expectTypeOf(results).toEqualTypeOf<{ author: { email: string } | null, total: number }[]>()
+         expect(results).toEqual([
+            { author: { email: 'alice@example.com' }, total: 2 },
+            { author: { email: 'bob@example.com' }, total: 1 },
+         ])
+      })
+
+      it('should filter groups with having', async () => {
+         const orm = getOrm()
+         await createTestUserWithRelations(orm, {
+            email: 'alice@example.com',
+            posts: [{ title: 'Post 1', slug: 'post-1' }, { title: 'Post 2', slug: 'post-2' }],
+         })
+         await createTestUserWithRelations(orm, {
+            email: 'bob@example.com',
+            posts: [{ title: 'Post 3', slug: 'post-3' }],
+         })
+
+         const results = await orm.aggregate('posts', {
+            groupBy: ['author'],
+            aggregates: { total: { $count: '*' } },
+            having: { total: { $gte: 2 } },
+         })
+
+         expect(results).toEqual([{ author: 1, total: 2 }])
+      })
+   })
+
+   it('should reject unknown aggregate functions', async () => {
+      const orm = getOrm()
+      await expect(orm.aggregate('users', {
+         aggregates: { total: { $median: 'id' } as never },
+      })).rejects.toThrow(/Invalid aggregate function/)
+   })
+})
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { createTestUsers, createTestUserWithRelations, setupQueryTests } from './utils'
+
+setupQueryTests('count and exists query tests (%s)', (getOrm) => {
+   describe('count', () => {
+      it('should count all records when no filter is provided', async () => {
+         const orm = getOrm()
+         await createTestUsers(orm, [
+            { email: 'user1@example.com', status: 'active' },
+            { email: 'user2@example.com', status: 'inactive' },
+         ])
+
+         expect(await orm.count('users')).toBe(2)
+      })
+
+      it('should count records matching a filter', async () => {
+         const orm = getOrm()
+         await createTestUsers(orm, [
+            { email: 'user1@example.com', status: 'active' },
+            { email: 'user2@example.com', status: 'inactive' },
+            { email: 'user3@example.com', status: 'active' },
+         ])
+
+         expect(await orm.count('users', { status: { $eq: 'active' } })).toBe(2)
+         expect(await orm.count('users', { status: { $eq: 'pending' } })).toBe(0)
+      })
+
+      it('should not inflate the count with has-many relation filters', async () => {
+         const orm = getOrm()
+         await createTestUserWithRelations(orm, {
+            email: 'user1@example.com',
+            posts: [
+               { title: 'Draft 1', slug: 'draft-1' },
+               { title: 'Draft 2', slug: 'draft-2' },
+            ],
+         })
+         await createTestUserWithRelations(orm, {
+            email: 'user2@example.com',
+            posts: [{ title: 'Published', slug: 'published' }],
+         })
+
+         expect(await orm.count('users', { posts: { title: { $startsWith: 'Draft' } } })).toBe(1)
+      })
+
+      it('should not inflate the count with many-to-many relation filters', async () => {
+         const orm = getOrm()
+         await createTestUserWithRelations(orm, {
+            email: 'user1@example.com',
+            roles: [{ name: 'admin' }, { name: 'editor' }],
+         })
+
+         expect(await orm.count('users', { roles: { name: { $in: ['admin', 'editor'] } } })).toBe(1)
+      })
+
+      it('should count records of tables with a composite primary key', async () => {
+         const orm = getOrm()
+         const [post] = await orm.create('posts', [
+            { title: 'Post 1', slug: 'post-1', tags: [{ name: 'tech' }, { name: 'news' }] },
+            { title: 'Post 2', slug: 'post-2', tags: [{ name: 'misc' }] },
+         ])
+
+         expect(await orm.count('posts_tags')).toBe(3)
+         expect(await orm.count('posts_tags', { post: { $eq: post!.id } })).toBe(2)
+      })
+   })
+
+   describe('exists', () => {
+      it('should return true when a record matches', async () => {
+         const orm = getOrm()
+         await createTestUsers(orm, [{ email: 'user1@example.com', status: 'active' }])
+
+         expect(await orm.exists('users', { email: { $eq: 'user1@example.com' } })).toBe(true)
+      })
+
+      it('should return false when no record matches', async () => {
+         const orm = getOrm()
+         await createTestUsers(orm, [{ email: 'user1@example.com', status: 'active' }])
+
+         expect(await orm.exists('users', { email: { $eq: 'user2@example.com' } })).toBe(false)
+         expect(await orm.exists('posts')).toBe(false)
+      })
+   })
+})
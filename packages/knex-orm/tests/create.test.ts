@@ -25,6 +25,49 @@ setupQueryTests('create query tests (%s)', (getOrm) => {
          expect(results[1]?.email).toBe('user2@example.com')
          expect(results[2]?.email).toBe('user3@example.com')
       })
+
+      it('should insert records without nested relations in batches', async () => {
+         const orm = getOrm()
+         const inserts: string[] = []
+         const onQuery = (query: { sql: string }) => {
+            if (query.sql.startsWith('insert')) inserts.push(query.sql)
+         }
+         orm.knex.on('query', onQuery)
+
+         const emails = Array.from({ length: 5 }, (_, index) => `user${index + 1}@example.com`)
+         const results = await orm.create('users', emails.map(email => ({ email, status: 'active' })), { batchSize: 2 })
+         orm.knex.off('query', onQuery)
+
+         expect(inserts).toHaveLength(3)
+         expect(results.map(user => user.email)).toEqual(emails)
+         expect(new Set(results.map(user => user.id)).size).toBe(5)
+
+         const users = await orm.find('users', { orderBy: ['id'] })
+         expect(users).toEqual(results)
+      })
+
+      it('should keep the input order when mixing batched and nested records', async () => {
+         const orm = getOrm()
+         const results = await orm.create('users', [
+            { email: 'user1@example.com', status: 'active' },
+            { email: 'user2@example.com', status: 'active', profile: { display_name: 'User 2' } },
+            { email: 'user3@example.com' },
+            { id: 10, email: 'user4@example.com' },
+            { id: 11, email: 'user5@example.com' },
+         ])
+
+         expect(results.map(user => user.email)).toEqual(['user1@example.com', 'user2@example.com', 'user3@example.com', 'user4@example.com', 'user5@example.com'])
+         expect(results.map(user => user.id).slice(3)).toEqual([10, 11])
+         expect(results[2]?.status).toBeNull()
+
+         const profiles = await orm.find('profiles', { where: { user: { $eq: results[1]!.id } } })
+         expect(profiles.map(profile => profile.display_name)).toEqual(['User 2'])
+      })
+
+      it('should reject invalid batch sizes', async () => {
+         const orm = getOrm()
+         await expect(orm.create('users', [{ email: 'user1@example.com' }], { batchSize: 0 })).rejects.toThrow(/Invalid batch size/)
+      })
    })
 
    describe('relations', () => {
@@ -141,6 +184,15 @@ setupQueryTests('create query tests (%s)', (getOrm) => {
          expect(postTags).toHaveLength(2)
       })
 
+      it('should key generated junction tables by both foreign keys', async () => {
+         const orm = getOrm()
+         const post = await orm.createOne('posts', { title: 'Test Post', slug: 'test-post', tags: [{ name: 'tech' }] })
+         const tag = await orm.findOne('tags', { where: { name: { $eq: 'tech' } } })
+
+         await expect(orm.create('posts_tags', [{ post: post.id, tag: tag!.id }])).rejects.toThrow()
+         expect(await orm.count('posts_tags')).toBe(1)
+      })
+
       it('should create record with deeply nested relations', async () => {
          const orm = getOrm()
          const results = await orm.create('users', [
@@ -1,6 +1,9 @@
-import type { schema } from './schema'
 import type { FieldName } from '@/types/fields'
+import type { FilterQuery } from '@/types/query'
+import { knex } from 'knex'
 import { describe, expect, it } from 'vitest'
+import { createInstanceWithKnex, defineOperator } from '../src'
+import { schema } from './schema'
 import { createTestUsers, createTestUserWithRelations, expectAllHaveNonNullStatus, expectAllHaveStatus, expectAllHaveStatusIn, setupQueryTests, withDefaultFields } from './utils'
 
 setupQueryTests('find query tests (%s)', (getOrm) => {
@@ -108,6 +111,199 @@ setupQueryTests('find query tests (%s)', (getOrm) => {
          expect(results).toHaveLength(2)
       })
 
+      it('should filter records using case-insensitive string operators', async () => {
+         const orm = getOrm()
+         await createTestUsers(orm, [
+            { email: 'Alice@Example.com', status: 'active' },
+            { email: 'bob@example.org', status: 'active' },
+            { email: 'charlie@test.com', status: 'active' },
+         ])
+
+         const findEmails = async (where: FilterQuery<typeof schema, 'users'>) => {
+            const users = await orm.find('users', { where, orderBy: ['id'] })
+            return users.map(user => user.email)
+         }
+
+         expect(await findEmails({ email: { $icontains: 'EXAMPLE' } })).toEqual(['Alice@Example.com', 'bob@example.org'])
+         expect(await findEmails({ email: { $istartsWith: 'ALICE' } })).toEqual(['Alice@Example.com'])
+         expect(await findEmails({ email: { $iendsWith: '.COM' } })).toEqual(['Alice@Example.com', 'charlie@test.com'])
+         expect(await findEmails({ email: { $ilike: 'b%@EXAMPLE.%' } })).toEqual(['bob@example.org'])
+      })
+
+      it('should filter records using $regex operator', async () => {
+         const orm = getOrm()
+         await createTestUsers(orm, [
+            { email: 'Alice@Example.com', status: 'active' },
+            { email: 'bob@example.org', status: 'active' },
+         ])
+
+         const findEmails = async (pattern: string) => {
+            const results = await orm.find('users', { where: { email: { $regex: pattern } }, orderBy: ['id'] })
+            return results.map(user => user.email)
+         }
+
+         expect(await findEmails('^[a-z].*@example\\.(com|org)$')).toEqual(['bob@example.org'])
+         expect(await findEmails('^b.+\\.org$|^A')).toEqual(['Alice@Example.com', 'bob@example.org'])
+         expect(await findEmails('Example')).toEqual(['Alice@Example.com'])
+         expect(await findEmails('\\w@e')).toEqual(['bob@example.org'])
+      })
+
+      it('should reject regular expressions sqlite3 can\'t translate to GLOB patterns', () => {
+         const orm = getOrm()
+         if (orm.knex.client.config.client !== 'sqlite3') return
+
+         expect(() => orm.find('users', { where: { email: { $regex: '^a+b' } } })).toThrow(/not supported by the sqlite3 driver/)
+         expect(() => orm.find('users', { where: { email: { $regex: '(ab)*' } } })).toThrow(/not supported by the sqlite3 driver/)
+      })
+
+      it('should filter records using $regex operator with a caller-supplied Knex instance', async () => {
+         if (getOrm().knex.client.config.client !== 'better-sqlite3') return
+
+         const knexInstance = knex({ client: 'better-sqlite3', connection: { filename: ':memory:' }, useNullAsDefault: true })
+         // the connection is already open when the instance is created
+         await knexInstance.raw('select 1')
+         const orm = createInstanceWithKnex(schema, knexInstance)
+         try {
+            await orm.migrate()
+            await createTestUsers(orm, [{ email: 'alice@example.com' }, { email: 'bob@example.org' }])
+
+            const results = await orm.find('users', { where: { email: { $regex: '\\.org$' } } })
+            expect(results.map(user => user.email)).toEqual(['bob@example.org'])
+         }
+         finally {
+            await orm.knex.destroy()
+         }
+      })
+
+      it('should filter records using custom operators', async () => {
+         defineOperator('$ieq', {
+            apply: (builder, column, value: string) => builder.whereRaw('lower(??) = ?', [column, value.toLowerCase()]),
+            validate: ({ z }) => z.string().min(1),
+            dataTypes: ['varchar'],
+         })
+
+         const orm = getOrm()
+         await createTestUsers(orm, [
+            { email: 'user1@example.com', status: 'active' },
+            { email: 'user2@example.com', status: 'active' },
+            { email: 'user3@example.com', status: 'active' },
+            { email: 'user4@example.com', status: 'active' },
+         ])
+
+         const results = await orm.find('users', { where: { email: { $ieq: 'USER2@Example.com' } } })
+         expect(results.map(user => user.email)).toEqual(['user2@example.com'])
+
+         // @ts-expect-error the augmented operand type only allows string columns
+         expect(() => orm.find('users', { where: { id: { $ieq: '1' } } })).toBeTypeOf('function')
+      })
+
+      it('should filter records using $search operator', async () => {
+         const orm = getOrm()
+         await createTestUserWithRelations(orm, {
+            email: 'writer@example.com',
+            posts: [
+               { title: 'Getting started with Knex', slug: 'getting-started' },
+               { title: 'Advanced Knex queries', slug: 'advanced-queries' },
+            ],
+         })
+         await createTestUserWithRelations(orm, {
+            email: 'cook@example.com',
+            posts: [{ title: 'Getting started with bread', slug: 'bread' }],
+         })
+
+         const findSlugs = async (query: string) => {
+            const posts = await orm.find('posts', { where: { title: { $search: query } }, orderBy: ['id'] })
+            return posts.map(post => post.slug)
+         }
+
+         expect(await findSlugs('knex')).toEqual(['getting-started', 'advanced-queries'])
+         expect(await findSlugs('Getting STARTED')).toEqual(['getting-started', 'bread'])
+         expect(await findSlugs('started knex!')).toEqual(['getting-started'])
+         expect(await findSlugs('sourdough')).toEqual([])
+
+         await orm.updateOne('posts', { slug: 'bread' }, { title: 'Sourdough bread' })
+         expect(await findSlugs('sourdough')).toEqual(['bread'])
+         expect(await findSlugs('started')).toEqual(['getting-started'])
+
+         const users = await orm.find('users', { where: { posts: { title: { $search: 'advanced' } } } })
+         expect(users.map(user => user.email)).toEqual(['writer@example.com'])
+         expect(await orm.planMigrations()).toEqual([])
+      })
+
+      describe('json columns', () => {
+         async function createCollections(orm: ReturnType<typeof getOrm>) {
+            await orm.create('collections', [
+               { name: 'articles', settings: { theme: { color: 'dark' }, pageSize: 20, public: true, tags: ['news', 'blog'] } },
+               { name: 'drafts', settings: { theme: { color: 'light' }, pageSize: 5, public: false } },
+               { name: 'archive', settings: { pageSize: 50 } },
+            ])
+         }
+
+         async function findNames(orm: ReturnType<typeof getOrm>, settings: FilterQuery<typeof schema, 'collections'>['settings']) {
+            const collections = await orm.find('collections', { where: { settings }, orderBy: ['id'] })
+            return collections.map(collection => collection.name)
+         }
+
+         it('should read json values back parsed', async () => {
+            const orm = getOrm()
+            const settings = { theme: { color: 'dark' }, pageSize: 20, tags: ['news', 'blog'] }
+            const created = await orm.createOne('collections', { name: 'articles', settings })
+            await orm.create('collections', [{ name: 'drafts', settings: ['draft'] }, { name: 'archive', settings: 'archived' }])
+            await orm.createOne('permissions', { name: 'read-articles', collection: created.id })
+
+            expect(created.settings).toEqual(settings)
+            expect((await orm.findOne('collections', created.id))?.settings).toEqual(settings)
+            expect((await orm.find('collections', { columns: ['settings'], orderBy: ['id'] })).map(collection => collection.settings))
+               .toEqual([settings, ['draft'], 'archived'])
+
+            for (const strategy of ['join', 'select-in'] as const) {
+               const permission = await orm.findOne('permissions', { columns: ['name', 'collection.settings'], strategy })
+               expect(permission?.collection?.settings).toEqual(settings)
+            }
+         })
+
+         it('should filter by the value at a path', async () => {
+            const orm = getOrm()
+            await createCollections(orm)
+
+            expect(await findNames(orm, { $path: ['theme', 'color'], $eq: 'dark' })).toEqual(['articles'])
+            expect(await findNames(orm, { $path: ['theme', 'color'], $in: ['dark', 'light'] })).toEqual(['articles', 'drafts'])
+            expect(await findNames(orm, { $path: ['pageSize'], $gte: 20 })).toEqual(['articles', 'archive'])
+            expect(await findNames(orm, { $path: ['public'], $eq: true })).toEqual(['articles'])
+            expect(await findNames(orm, { $path: ['theme', 'color'], $null: true })).toEqual(['archive'])
+            expect(await findNames(orm, { $path: ['tags', 1], $eq: 'blog' })).toEqual(['articles'])
+         })
+
+         it('should filter by paths with backslashes in their keys', async () => {
+            const orm = getOrm()
+            await orm.create('collections', [
+               { name: 'articles', settings: { 'C:\\Users': { name: 'windows' } } },
+               { name: 'drafts', settings: { 'C:Users': { name: 'windows' } } },
+            ])
+
+            expect(await findNames(orm, { $path: ['C:\\Users', 'name'], $eq: 'windows' })).toEqual(['articles'])
+            expect(await findNames(orm, { $hasKey: ['C:\\Users', 'name'] })).toEqual(['articles'])
+         })
+
+         it('should filter by key presence with $hasKey', async () => {
+            const orm = getOrm()
+            await createCollections(orm)
+
+            expect(await findNames(orm, { $hasKey: 'theme' })).toEqual(['articles', 'drafts'])
+            expect(await findNames(orm, { $hasKey: ['theme', 'color'] })).toEqual(['articles', 'drafts'])
+            expect(await findNames(orm, { $hasKey: 'tags' })).toEqual(['articles'])
+         })
+
+         it('should filter by contained JSON with $containsJson', async () => {
+            const orm = getOrm()
+            await createCollections(orm)
+
+            expect(await findNames(orm, { $containsJson: { theme: { color: 'light' } } })).toEqual(['drafts'])
+            expect(await findNames(orm, { $containsJson: { pageSize: 50 } })).toEqual(['archive'])
+            expect(await findNames(orm, { $containsJson: { public: true, tags: ['news'] } })).toEqual(['articles'])
+         })
+      })
+
       it('should filter records with null values', async () => {
          const orm = getOrm()
          await createTestUsers(orm, [
@@ -213,6 +409,56 @@ setupQueryTests('find query tests (%s)', (getOrm) => {
          expect(results[2]?.email).toBe('alice@example.com')
       })
 
+      it('should order by belongs-to relation paths', async () => {
+         const orm = getOrm()
+         await createTestUserWithRelations(orm, {
+            email: 'bob@example.com',
+            posts: [{ title: 'Post 1', slug: 'post-1' }, { title: 'Post 2', slug: 'post-2' }],
+         })
+         await createTestUserWithRelations(orm, {
+            email: 'alice@example.com',
+            posts: [{ title: 'Post 3', slug: 'post-3' }],
+         })
+
+         const results = await orm.find('posts', {
+            columns: ['title'],
+            orderBy: ['-author.email', 'title'],
+         })
+         expect(results.map(post => post.title)).toEqual(['Post 1', 'Post 2', 'Post 3'])
+
+         const paged = await orm.find('posts', {
+            columns: ['title', 'author.email'],
+            orderBy: ['author.email', '-title'],
+            limit: 2,
+         })
+         expect(paged).toEqual([
+            { id: 3, title: 'Post 3', author: { email: 'alice@example.com' } },
+            { id: 2, title: 'Post 2', author: { email: 'bob@example.com' } },
+         ])
+      })
+
+      it('should order by has-one relation paths', async () => {
+         const orm = getOrm()
+         await createTestUserWithRelations(orm, { email: 'user1@example.com', profile: { display_name: 'Zed' } })
+         await createTestUserWithRelations(orm, { email: 'user2@example.com', profile: { display_name: 'Amy' } })
+
+         const results = await orm.find('users', { orderBy: ['profile.display_name'] })
+         expect(results.map(user => user.email)).toEqual(['user2@example.com', 'user1@example.com'])
+
+         const selectIn = await orm.find('users', {
+            columns: ['email', 'profile.display_name'],
+            orderBy: ['-profile.display_name'],
+            strategy: 'select-in',
+         })
+         expect(selectIn.map(user => user.email)).toEqual(['user1@example.com', 'user2@example.com'])
+      })
+
+      it('should reject ordering by has-many relation paths', () => {
+         const orm = getOrm()
+         // @ts-expect-error has-many relations can't be used for ordering
+         expect(() => orm.find('users', { orderBy: ['posts.title'] })).toThrow(/is not a belongs-to or has-one relation/)
+      })
+
       it('should support limit option', async () => {
          const orm = getOrm()
          await createTestUsers(orm, [
@@ -245,6 +491,263 @@ setupQueryTests('find query tests (%s)', (getOrm) => {
       })
    })
 
+   describe('pagination with relations', () => {
+      async function createUsersWithPosts(orm: ReturnType<typeof getOrm>) {
+         for (let i = 1; i <= 3; i++) {
+            await createTestUserWithRelations(orm, {
+               email: `user${i}@example.com`,
+               posts: [
+                  { title: `Post ${i}.1`, slug: `post-${i}-1` },
+                  { title: `Post ${i}.2`, slug: `post-${i}-2` },
+               ],
+               roles: [{ name: `role-${i}-a` }, { name: `role-${i}-b` }],
+            })
+         }
+      }
+
+      it('should apply limit to root records when selecting has-many relations', async () => {
+         const orm = getOrm()
+         await createUsersWithPosts(orm)
+
+         const results = await orm.find('users', {
+            columns: ['email', 'posts.title'],
+            orderBy: ['email'],
+            limit: 2,
+         })
+
+         expect(results).toEqual([
+            { id: 1, email: 'user1@example.com', posts: [{ title: 'Post 1.1' }, { title: 'Post 1.2' }] },
+            { id: 2, email: 'user2@example.com', posts: [{ title: 'Post 2.1' }, { title: 'Post 2.2' }] },
+         ])
+      })
+
+      it('should apply offset to root records when selecting many-to-many relations', async () => {
+         const orm = getOrm()
+         await createUsersWithPosts(orm)
+
+         const results = await orm.find('users', {
+            columns: ['email', 'roles.name', 'posts.title'],
+            orderBy: ['-email'],
+            limit: 2,
+            offset: 1,
+         })
+
+         expect(results.map(user => user.email)).toEqual(['user2@example.com', 'user1@example.com'])
+         expect(results.map(user => user.roles.map(role => role.name))).toEqual([
+            ['role-2-a', 'role-2-b'],
+            ['role-1-a', 'role-1-b'],
+         ])
+         expect(results.every(user => user.posts.length === 2)).toBe(true)
+      })
+
+      it('should not count root records twice when filtering on has-many relations', async () => {
+         const orm = getOrm()
+         await createUsersWithPosts(orm)
+
+         const results = await orm.find('users', {
+            columns: ['email', 'posts.title'],
+            where: { posts: { title: { $startsWith: 'Post' } } },
+            orderBy: ['email'],
+            limit: 3,
+         })
+
+         expect(results.map(user => user.email)).toEqual(['user1@example.com', 'user2@example.com', 'user3@example.com'])
+      })
+
+      it('should load every related record in findOne', async () => {
+         const orm = getOrm()
+         await createUsersWithPosts(orm)
+
+         const result = await orm.findOne('users', 2, { columns: ['posts.title'] })
+         expect(result?.posts).toHaveLength(2)
+      })
+   })
+
+   describe('select-in strategy', () => {
+      async function createUsersWithRelations(orm: ReturnType<typeof getOrm>) {
+         await createTestUserWithRelations(orm, {
+            email: 'user1@example.com',
+            profile: { display_name: 'User 1' },
+            posts: [
+               { title: 'Post 1', slug: 'post-1', tags: [{ name: 'tag-1' }] },
+               { title: 'Post 2', slug: 'post-2', tags: [{ name: 'tag-2' }] },
+            ],
+            roles: [
+               { name: 'admin', policies: [{ name: 'manage-users', permissions: [{ name: 'read-users', action: ['read'] }] }] },
+               { name: 'editor' },
+            ],
+         })
+         await createTestUserWithRelations(orm, {
+            email: 'user2@example.com',
+            posts: [{ title: 'Post 3', slug: 'post-3' }],
+         })
+         await createTestUsers(orm, [{ email: 'user3@example.com', status: 'inactive' }])
+      }
+
+      const selections = [
+         ['*', 'posts.*', 'roles.*'],
+         ['email', 'profile.display_name', 'posts.title', 'posts.tags.name'],
+         ['roles.name', 'roles.policies.name', 'roles.policies.permissions.name', 'roles.policies.permissions.action'],
+         ['*.*.*'],
+      ] as FieldName<typeof schema, 'users'>[][]
+
+      it.each(selections)('should load the same records as the join strategy (%s)', async (...columns) => {
+         const orm = getOrm()
+         await createUsersWithRelations(orm)
+
+         const joined = await orm.find('users', { columns, orderBy: ['email'] })
+         const selectIn = await orm.find('users', { columns, orderBy: ['email'], strategy: 'select-in' })
+
+         expect(selectIn).toStrictEqual(joined)
+      })
+
+      it('should load every nested has-many record', async () => {
+         const orm = getOrm()
+         await createTestUserWithRelations(orm, {
+            email: 'user1@example.com',
+            posts: [{ title: 'Post 1', slug: 'post-1', tags: [{ name: 'tag-1' }, { name: 'tag-2' }] }],
+         })
+
+         const result = await orm.findOne('users', 1, { columns: ['posts.title', 'posts.tags.name'], strategy: 'select-in' })
+
+         expect(result).toEqual({ posts: [{ id: 1, title: 'Post 1', tags: [{ name: 'tag-1' }, { name: 'tag-2' }] }] })
+      })
+
+      it('should load belongs-to relations', async () => {
+         const orm = getOrm()
+         await createUsersWithRelations(orm)
+
+         const results = await orm.find('posts', {
+            columns: ['title', 'author.email'],
+            orderBy: ['title'],
+            strategy: 'select-in',
+         })
+
+         expect(results).toEqual([
+            { id: 1, title: 'Post 1', author: { email: 'user1@example.com' } },
+            { id: 2, title: 'Post 2', author: { email: 'user1@example.com' } },
+            { id: 3, title: 'Post 3', author: { email: 'user2@example.com' } },
+         ])
+      })
+
+      it('should apply filters, limit and offset to root records', async () => {
+         const orm = getOrm()
+         await createUsersWithRelations(orm)
+
+         const results = await orm.find('users', {
+            columns: ['email', 'posts.title'],
+            where: { posts: { title: { $startsWith: 'Post' } } },
+            orderBy: ['-email'],
+            limit: 1,
+            offset: 1,
+            strategy: 'select-in',
+         })
+
+         expect(results).toEqual([
+            { id: 1, email: 'user1@example.com', posts: [{ title: 'Post 1' }, { title: 'Post 2' }] },
+         ])
+      })
+
+      it('should issue one query per relation level', async () => {
+         const orm = getOrm()
+         await createUsersWithRelations(orm)
+
+         const queries: string[] = []
+         const onQuery = (query: { sql: string }) => queries.push(query.sql)
+         orm.knex.on('query', onQuery)
+
+         await orm.find('users', { columns: ['email', 'posts.title', 'posts.tags.name', 'roles.name'], strategy: 'select-in' })
+         orm.knex.removeListener('query', onQuery)
+
+         expect(queries).toHaveLength(4)
+      })
+   })
+
+   describe('per-relation options', () => {
+      async function createUsersWithPosts(orm: ReturnType<typeof getOrm>) {
+         await createTestUserWithRelations(orm, {
+            email: 'user1@example.com',
+            posts: [
+               { title: 'Published A', slug: 'published-a' },
+               { title: 'Draft B', slug: 'draft-b' },
+               { title: 'Published C', slug: 'published-c' },
+               { title: 'Published D', slug: 'published-d' },
+            ],
+            roles: [{ name: 'admin', policies: [{ name: 'policy-1' }, { name: 'policy-2' }] }],
+         })
+         await createTestUserWithRelations(orm, {
+            email: 'user2@example.com',
+            posts: [
+               { title: 'Published E', slug: 'published-e' },
+               { title: 'Draft F', slug: 'draft-f' },
+            ],
+         })
+      }
+
+      it('should filter, order and limit related records per parent', async () => {
+         const orm = getOrm()
+         // pg-mem doesn't implement the window functions paging related records
+         if (orm.knex.client.config.client === 'pg') return
+         await createUsersWithPosts(orm)
+
+         const results = await orm.find('users', {
+            columns: ['email', 'posts.title'],
+            orderBy: ['email'],
+            with: {
+               posts: {
+                  where: { title: { $startsWith: 'Published' } },
+                  orderBy: ['-title'],
+                  limit: 2,
+               },
+            },
+         })
+
+         expect(results).toEqual([
+            { id: 1, email: 'user1@example.com', posts: [{ title: 'Published D' }, { title: 'Published C' }] },
+            { id: 2, email: 'user2@example.com', posts: [{ title: 'Published E' }] },
+         ])
+      })
+
+      it('should apply offset and nested options', async () => {
+         const orm = getOrm()
+         // pg-mem doesn't implement the window functions paging related records
+         if (orm.knex.client.config.client === 'pg') return
+         await createUsersWithPosts(orm)
+
+         const result = await orm.findOne('users', 1, {
+            columns: ['posts.title', 'roles.name', 'roles.policies.name'],
+            with: {
+               posts: { orderBy: ['title'], offset: 1, limit: 1 },
+               roles: { with: { policies: { orderBy: ['-name'], limit: 1 } } },
+            },
+         })
+
+         expect(result).toEqual({
+            posts: [{ title: 'Published A' }],
+            roles: [{ id: 1, name: 'admin', policies: [{ name: 'policy-2' }] }],
+         })
+      })
+
+      it('should reject options for relations that are not selected', () => {
+         const orm = getOrm()
+
+         expect(() => orm.find('users', { columns: ['email'], with: { posts: { limit: 1 } } }))
+            .toThrow('Cannot apply "with" options to "posts": the relation is not selected in columns')
+         expect(() => orm.find('users', { columns: ['posts.title'], with: { posts: { with: { tags: { limit: 1 } } } } }))
+            .toThrow('Cannot apply "with" options to "posts.tags"')
+      })
+
+      it('should type options against the related table', () => {
+         const orm = getOrm()
+         const query = () => orm.find('users', {
+            columns: ['posts.title'],
+            // @ts-expect-error unknown column of the related table
+            with: { posts: { where: { unknown: { $eq: 1 } } } },
+         })
+         expect(query).toBeTypeOf('function')
+      })
+   })
+
    describe('column selection', () => {
       it('should support select option to limit columns', async () => {
          const orm = getOrm()
@@ -310,6 +813,25 @@ setupQueryTests('find query tests (%s)', (getOrm) => {
             ],
          })
       })
+
+      it.each(['join', 'select-in'] as const)('should select junction columns of many-to-many relations (%s)', async (strategy) => {
+         const orm = getOrm()
+         await orm.createOne('users', {
+            email: 'user1@example.com',
+            roles: [{ name: 'admin', $pivot: { scope: 'billing' } }, { name: 'editor' }],
+         })
+
+         const result = await orm.findOne('users', {
+            where: { email: { $eq: 'user1@example.com' } },
+            columns: ['email', 'roles.name', 'roles.$pivot.scope'],
+            strategy,
+         })
+
+         expect(result?.roles.sort((a, b) => a.name.localeCompare(b.name))).toEqual([
+            { name: 'admin', $pivot: { scope: 'billing' } },
+            { name: 'editor', $pivot: { scope: null } },
+         ])
+      })
    })
 
    describe('nested filters', () => {
@@ -337,6 +859,23 @@ setupQueryTests('find query tests (%s)', (getOrm) => {
          expect(results[0]?.email).toBe('user1@example.com')
       })
 
+      it('should filter records with nested filters on belongs-to relations', async () => {
+         const orm = getOrm()
+         await createTestUsers(orm, [{ email: 'user1@example.com' }])
+         await createTestUserWithRelations(orm, {
+            email: 'user2@example.com',
+            posts: [{ title: 'Post 1', slug: 'post-1' }],
+         })
+
+         // the post and its author have different ids
+         const results = await orm.find('posts', {
+            columns: ['title'],
+            where: { author: { email: { $eq: 'user2@example.com' } } },
+         })
+
+         expect(results).toEqual([{ title: 'Post 1' }])
+      })
+
       it('should filter records with deeply nested filters', async () => {
          const orm = getOrm()
          await createTestUserWithRelations(orm, {
@@ -371,6 +910,127 @@ setupQueryTests('find query tests (%s)', (getOrm) => {
       })
    })
 
+   describe('relation quantifiers', () => {
+      async function createAuthors(orm: ReturnType<typeof getOrm>) {
+         await createTestUserWithRelations(orm, {
+            email: 'alice@example.com',
+            posts: [
+               { title: 'Published 1', slug: 'published-1' },
+               { title: 'Published 2', slug: 'published-2' },
+               { title: 'Published 3', slug: 'published-3' },
+            ],
+            roles: [{ name: 'admin' }, { name: 'editor' }],
+         })
+         await createTestUserWithRelations(orm, {
+            email: 'bob@example.com',
+            posts: [
+               { title: 'Published 4', slug: 'published-4' },
+               { title: 'Draft 1', slug: 'draft-1' },
+            ],
+            roles: [{ name: 'viewer' }],
+         })
+         await createTestUserWithRelations(orm, { email: 'carol@example.com' })
+      }
+
+      async function findEmails(orm: ReturnType<typeof getOrm>, where: FilterQuery<typeof schema, 'users'>) {
+         const users = await orm.find('users', { where, orderBy: ['email'] })
+         return users.map(user => user.email)
+      }
+
+      it('should filter with $some without duplicating root records', async () => {
+         const orm = getOrm()
+         // pg-mem doesn't resolve the outer columns of correlated subqueries
+         if (orm.knex.client.config.client === 'pg') return
+         await createAuthors(orm)
+
+         expect(await findEmails(orm, { posts: { $some: { title: { $startsWith: 'Published' } } } }))
+            .toEqual(['alice@example.com', 'bob@example.com'])
+      })
+
+      it('should filter with $every, including records without related records', async () => {
+         const orm = getOrm()
+         // pg-mem doesn't resolve the outer columns of correlated subqueries
+         if (orm.knex.client.config.client === 'pg') return
+         await createAuthors(orm)
+
+         expect(await findEmails(orm, { posts: { $every: { title: { $startsWith: 'Published' } } } }))
+            .toEqual(['alice@example.com', 'carol@example.com'])
+      })
+
+      it('should not match $every on related records the filter evaluates to null on', async () => {
+         const orm = getOrm()
+         // pg-mem doesn't resolve the outer columns of correlated subqueries
+         if (orm.knex.client.config.client === 'pg') return
+         await orm.createOne('users', { email: 'alice@example.com', posts: [{ title: 'Post 1', slug: 'post-1', views: null }] })
+         await orm.createOne('users', { email: 'bob@example.com', posts: [{ title: 'Post 2', slug: 'post-2', views: 1 }] })
+
+         // a single related record matches $every exactly when it matches $some
+         expect(await findEmails(orm, { posts: { $some: { views: { $neq: 3 } } } })).toEqual(['bob@example.com'])
+         expect(await findEmails(orm, { posts: { $every: { views: { $neq: 3 } } } })).toEqual(['bob@example.com'])
+      })
+
+      it('should filter with $none', async () => {
+         const orm = getOrm()
+         // pg-mem doesn't resolve the outer columns of correlated subqueries
+         if (orm.knex.client.config.client === 'pg') return
+         await createAuthors(orm)
+
+         expect(await findEmails(orm, { posts: { $none: { title: { $startsWith: 'Draft' } } } }))
+            .toEqual(['alice@example.com', 'carol@example.com'])
+      })
+
+      it('should keep records when related records have no parent', async () => {
+         const orm = getOrm()
+         // pg-mem doesn't resolve the outer columns of correlated subqueries
+         if (orm.knex.client.config.client === 'pg') return
+         await createAuthors(orm)
+         await orm.createOne('posts', { title: 'Draft 2', slug: 'draft-2' })
+
+         expect(await findEmails(orm, { posts: { $none: { title: { $startsWith: 'Draft' } } } }))
+            .toEqual(['alice@example.com', 'carol@example.com'])
+         expect(await findEmails(orm, { posts: { $every: { title: { $startsWith: 'Published' } } } }))
+            .toEqual(['alice@example.com', 'carol@example.com'])
+      })
+
+      it('should compare relation counts with $count', async () => {
+         const orm = getOrm()
+         await createAuthors(orm)
+
+         expect(await findEmails(orm, { posts: { $count: { $gte: 2 } } })).toEqual(['alice@example.com', 'bob@example.com'])
+         expect(await findEmails(orm, { posts: { $count: 0 } })).toEqual(['carol@example.com'])
+         expect(await findEmails(orm, { roles: { $count: { $between: [1, 1] } } })).toEqual(['bob@example.com'])
+      })
+
+      it('should support quantifiers on many-to-many relations and combine them', async () => {
+         const orm = getOrm()
+         // pg-mem doesn't resolve the outer columns of correlated subqueries
+         if (orm.knex.client.config.client === 'pg') return
+         await createAuthors(orm)
+
+         expect(await findEmails(orm, { roles: { $some: { name: { $eq: 'editor' } } } })).toEqual(['alice@example.com'])
+         expect(await findEmails(orm, {
+            roles: { $none: { name: { $eq: 'admin' } } },
+            posts: { $some: { title: { $startsWith: 'Draft' } }, $count: { $lt: 3 } },
+         })).toEqual(['bob@example.com'])
+      })
+
+      it('should count matching records with quantifiers', async () => {
+         const orm = getOrm()
+         // pg-mem doesn't resolve the outer columns of correlated subqueries
+         if (orm.knex.client.config.client === 'pg') return
+         await createAuthors(orm)
+
+         expect(await orm.count('users', { posts: { $some: { title: { $startsWith: 'Published' } } } })).toBe(2)
+      })
+
+      it('should reject quantifiers on singular relations', () => {
+         const orm = getOrm()
+         // @ts-expect-error quantifiers are only available on has-many and many-to-many relations
+         expect(() => orm.find('users', { where: { profile: { $some: { display_name: { $eq: 'Alice' } } } } }))
+            .toThrow(/Quantifier filters are only supported/)
+      })
+   })
+
    describe('wildcard column selections', () => {
       it('should support wildcards at different depths', async () => {
          const orm = getOrm()
@@ -413,6 +1073,7 @@ setupQueryTests('find query tests (%s)', (getOrm) => {
                posts: [withDefaultFields({
                   title: post.title,
                   slug: post.slug,
+                  views: null,
                   author: expect.any(Number),
                })],
                roles: [withDefaultFields({
@@ -425,6 +1086,7 @@ setupQueryTests('find query tests (%s)', (getOrm) => {
                posts: [withDefaultFields({
                   title: post.title,
                   slug: post.slug,
+                  views: null,
                   author: expect.any(Number),
                   tags: [withDefaultFields({
                      name: tag.name,
@@ -443,6 +1105,7 @@ setupQueryTests('find query tests (%s)', (getOrm) => {
                posts: [withDefaultFields({
                   title: post.title,
                   slug: post.slug,
+                  views: null,
                   author: expect.any(Number),
                   tags: [withDefaultFields({
                      name: tag.name,
@@ -466,6 +1129,7 @@ setupQueryTests('find query tests (%s)', (getOrm) => {
                posts: [withDefaultFields({
                   title: post.title,
                   slug: post.slug,
+                  views: null,
                   author: expect.any(Number),
                   tags: [withDefaultFields({
                      name: tag.name,
@@ -480,6 +1144,7 @@ setupQueryTests('find query tests (%s)', (getOrm) => {
                         action: null,
                         collection: withDefaultFields({
                            name: collection.name,
+                           settings: null,
                         }),
                      })],
                   })],
@@ -521,6 +1186,7 @@ setupQueryTests('find query tests (%s)', (getOrm) => {
                posts: [withDefaultFields({
                   title: post.title,
                   slug: post.slug,
+                  views: null,
                   author: expect.any(Number),
                })],
             }),
@@ -530,6 +1196,7 @@ setupQueryTests('find query tests (%s)', (getOrm) => {
                posts: [withDefaultFields({
                   title: post.title,
                   slug: post.slug,
+                  views: null,
                   author: expect.any(Number),
                   tags: [withDefaultFields({
                      name: tag.name,
@@ -542,6 +1209,7 @@ setupQueryTests('find query tests (%s)', (getOrm) => {
                posts: [withDefaultFields({
                   title: post.title,
                   slug: post.slug,
+                  views: null,
                   author: expect.any(Number),
                   tags: [withDefaultFields({
                      name: tag.name,
@@ -631,6 +1299,7 @@ setupQueryTests('find query tests (%s)', (getOrm) => {
                         action: null,
                         collection: withDefaultFields({
                            name: collection.name,
+                           settings: null,
                         }),
                      })],
                   })],
@@ -652,3 +1321,9 @@ setupQueryTests('find query tests (%s)', (getOrm) => {
       })
    })
 })
+
+declare module '../src' {
+   interface OperatorsMap<T> {
+      $ieq: T extends string ? string : never
+   }
+}
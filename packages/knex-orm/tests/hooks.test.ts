@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest'
+import { setupQueryTests } from './utils'
+
+setupQueryTests('lifecycle hooks tests (%s)', (getOrm) => {
+   describe('create', () => {
+      it('should modify payloads before inserting them', async () => {
+         const orm = getOrm()
+         const created: string[] = []
+         orm.addHooks('users', {
+            beforeCreate: ({ record }) => { record.email = record.email?.toLowerCase() },
+            afterCreate: ({ record }) => { created.push(record.email) },
+         })
+
+         const input = { email: 'User1@Example.com', status: 'active' }
+         const user = await orm.createOne('users', input)
+
+         expect(user.email).toBe('user1@example.com')
+         expect(input.email).toBe('User1@Example.com')
+         expect(created).toEqual(['user1@example.com'])
+      })
+
+      it('should run instance hooks for nested records', async () => {
+         const orm = getOrm()
+         const events: string[] = []
+         orm.addHooks({
+            beforeCreate: ({ tableName }) => { events.push(`before:${tableName}`) },
+            afterCreate: ({ tableName }) => { events.push(`after:${tableName}`) },
+         })
+
+         await orm.createOne('users', {
+            email: 'user1@example.com',
+            posts: [{ title: 'Post 1', slug: 'post-1' }],
+         })
+
+         expect(events).toEqual(['before:users', 'before:posts', 'after:posts', 'after:users'])
+      })
+
+      it('should run the after hooks of batched records once they are inserted', async () => {
+         const orm = getOrm()
+         const events: string[] = []
+         orm.addHooks('users', {
+            beforeCreate: ({ record }) => { events.push(`before:${record.email}`) },
+            afterCreate: ({ record }) => { events.push(`after:${record.email}`) },
+         })
+
+         await orm.create('users', [
+            { email: 'user1@example.com' },
+            { email: 'user2@example.com' },
+            { email: 'user3@example.com', posts: [{ title: 'Post 1', slug: 'post-1' }] },
+         ])
+
+         expect(events).toEqual([
+            'before:user1@example.com',
+            'before:user2@example.com',
+            'before:user3@example.com',
+            'after:user1@example.com',
+            'after:user2@example.com',
+            'after:user3@example.com',
+         ])
+      })
+
+      it('should run hooks inside the transaction', async () => {
+         const orm = getOrm()
+         let count: number | undefined
+         orm.addHooks('users', {
+            afterCreate: async ({ trx }) => { count = await orm.count('users', {}, { trx }) },
+         })
+
+         await orm.createOne('users', { email: 'user1@example.com' })
+         expect(count).toBe(1)
+      })
+
+      it('should abort the mutation when a hook throws', async () => {
+         const orm = getOrm()
+         orm.addHooks('posts', {
+            beforeCreate: () => { throw new Error('Posts are closed') },
+         })
+
+         await expect(orm.createOne('users', {
+            email: 'user1@example.com',
+            posts: [{ title: 'Post 1', slug: 'post-1' }],
+         })).rejects.toThrow('Posts are closed')
+
+         // pg-mem doesn't roll transactions back
+         if (orm.knex.client.config.client !== 'pg') {
+            expect(await orm.count('users')).toBe(0)
+         }
+      })
+   })
+
+   describe('update', () => {
+      it('should modify patches and receive the updated records', async () => {
+         const orm = getOrm()
+         const user = await orm.createOne('users', { email: 'user1@example.com', status: 'active' })
+         const updated: unknown[] = []
+         orm.addHooks('users', {
+            beforeUpdate: ({ patch }) => {
+               if (typeof patch.status === 'string') patch.status = patch.status.toUpperCase()
+            },
+            afterUpdate: ({ records }) => { updated.push(...records.map(record => record.status)) },
+         })
+
+         await orm.update('users', { id: user.id }, { status: 'inactive' })
+
+         expect(updated).toEqual(['INACTIVE'])
+         expect((await orm.findOne('users', user.id))?.status).toBe('INACTIVE')
+      })
+
+      it('should run hooks for nested child updates', async () => {
+         const orm = getOrm()
+         const user = await orm.createOne('users', {
+            email: 'user1@example.com',
+            posts: [{ title: 'Post 1', slug: 'post-1' }],
+         })
+         const post = await orm.findOne('posts', { where: { author: { $eq: user.id } } })
+         const titles: string[] = []
+         orm.addHooks('posts', {
+            afterUpdate: ({ records }) => { titles.push(...records.map(record => record.title)) },
+         })
+
+         await orm.update('users', { id: user.id }, { posts: [{ id: post!.id, title: 'Updated Post' }] })
+         expect(titles).toEqual(['Updated Post'])
+      })
+   })
+
+   describe('upsert', () => {
+      it('should run the create hooks of inserted records and the update hooks of existing ones', async () => {
+         const orm = getOrm()
+         await orm.createOne('users', { email: 'user1@example.com', status: 'active' })
+         const events: string[] = []
+         orm.addHooks('users', {
+            beforeCreate: ({ record }) => { events.push(`beforeCreate:${record.email}`) },
+            afterCreate: ({ record }) => { events.push(`afterCreate:${record.email}`) },
+            beforeUpdate: ({ patch }) => {
+               patch.status = 'updated'
+               events.push(`beforeUpdate:${patch.email}`)
+            },
+            afterUpdate: ({ records }) => { events.push(...records.map(record => `afterUpdate:${record.status}`)) },
+         })
+
+         const [updated] = await orm.upsert('users', [{ email: 'user1@example.com', status: 'inactive' }, { email: 'user2@example.com' }], { conflict: ['email'] })
+
+         expect(updated?.status).toBe('updated')
+         expect(events).toEqual([
+            'beforeUpdate:user1@example.com',
+            'beforeCreate:user2@example.com',
+            'afterUpdate:updated',
+            'afterCreate:user2@example.com',
+         ])
+      })
+
+      it('should not run hooks for records left untouched', async () => {
+         const orm = getOrm()
+         await orm.createOne('users', { email: 'user1@example.com' })
+         const events: string[] = []
+         orm.addHooks('users', {
+            beforeUpdate: () => { events.push('beforeUpdate') },
+            afterUpdate: () => { events.push('afterUpdate') },
+         })
+
+         await orm.upsert('users', [{ email: 'user1@example.com', status: 'inactive' }], { conflict: ['email'], merge: false })
+         expect(events).toEqual([])
+      })
+   })
+
+   describe('remove', () => {
+      it('should run remove hooks with the number of removed records', async () => {
+         const orm = getOrm()
+         await orm.create('users', [{ email: 'user1@example.com' }, { email: 'user2@example.com' }])
+         const counts: number[] = []
+         const removeHooks = orm.addHooks('users', {
+            afterRemove: ({ count }) => { counts.push(count) },
+         })
+
+         await orm.remove('users', { email: { $eq: 'user1@example.com' } })
+         removeHooks()
+         await orm.remove('users', {})
+
+         expect(counts).toEqual([1])
+      })
+
+      it('should abort removals when a hook throws', async () => {
+         const orm = getOrm()
+         await orm.createOne('users', { email: 'user1@example.com' })
+         orm.addHooks('users', {
+            beforeRemove: () => { throw new Error('Users are kept') },
+         })
+
+         await expect(orm.remove('users', {})).rejects.toThrow('Users are kept')
+         expect(await orm.count('users')).toBe(1)
+      })
+   })
+})
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { migrateSchema, planMigrations } from '../src'
+import { schema } from './schema'
+import { setupQueryTests } from './utils'
+
+setupQueryTests('migration tests (%s)', (getOrm) => {
+   describe('full-text indexes', () => {
+      it('should drop the index of columns no longer declared with fullText', async () => {
+         const orm = getOrm()
+         // pg-mem doesn't list indexes in its catalog
+         if (orm.knex.client.config.client === 'pg') return
+
+         const updated = { ...schema, posts: { ...schema.posts, title: { ...schema.posts.title, fullText: false } } }
+         expect(await planMigrations(orm.knex, updated)).toEqual([{ type: 'dropFullTextIndex', table: 'posts', column: 'title' }])
+
+         await migrateSchema(orm.knex, updated)
+         expect(await planMigrations(orm.knex, updated)).toEqual([])
+         expect(await orm.knex.schema.hasTable('posts_title_fulltext')).toBe(false)
+
+         // the sync triggers are dropped with the index
+         const user = await orm.createOne('users', { email: 'user1@example.com', posts: [{ title: 'Post 1', slug: 'post-1' }] })
+         expect(await orm.update('posts', { author: { $eq: user.id } }, { title: 'Updated Post' })).toBe(1)
+         expect(await orm.remove('users', { id: user.id })).toBe(1)
+      })
+
+      it('should drop the index of tables no longer declared', async () => {
+         const orm = getOrm()
+         // pg-mem doesn't list indexes in its catalog
+         if (orm.knex.client.config.client === 'pg') return
+
+         expect(await planMigrations(orm.knex, { users: schema.users })).toEqual([{ type: 'dropFullTextIndex', table: 'posts', column: 'title' }])
+      })
+
+      it('should keep the index of columns declared with fullText', async () => {
+         const orm = getOrm()
+         expect(await orm.planMigrations()).toEqual([])
+      })
+   })
+})
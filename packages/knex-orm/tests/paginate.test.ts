@@ -0,0 +1,126 @@
+import type { schema } from './schema'
+import type { PaginateResult } from '@/types/query'
+import { expect, it } from 'vitest'
+import { createTestUsers, createTestUserWithRelations, setupQueryTests } from './utils'
+
+setupQueryTests('paginate query tests (%s)', (getOrm) => {
+   it('should return the first page with page info', async () => {
+      const orm = getOrm()
+      await createTestUsers(orm, [
+         { email: 'user3@example.com' },
+         { email: 'user1@example.com' },
+         { email: 'user2@example.com' },
+      ])
+
+      const { items, pageInfo } = await orm.paginate('users', { orderBy: ['email'], first: 2 })
+
+      expect(items.map(user => user.email)).toEqual(['user1@example.com', 'user2@example.com'])
+      expect(pageInfo.hasNextPage).toBe(true)
+      expect(pageInfo.endCursor).toEqual(expect.any(String))
+   })
+
+   it('should follow cursors until the last page', async () => {
+      const orm = getOrm()
+      await createTestUsers(orm, Array.from({ length: 5 }, (_, i) => ({ email: `user${i + 1}@example.com` })))
+
+      const emails: string[] = []
+      let after: string | null = null
+      let pages = 0
+
+      do {
+         const page: PaginateResult<typeof schema, 'users'> = await orm.paginate('users', { orderBy: ['-email'], first: 2, after })
+         emails.push(...page.items.map(user => user.email))
+         after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null
+         pages++
+      } while (after)
+
+      expect(pages).toBe(3)
+      expect(emails).toEqual([
+         'user5@example.com',
+         'user4@example.com',
+         'user3@example.com',
+         'user2@example.com',
+         'user1@example.com',
+      ])
+   })
+
+   it('should handle mixed ordering directions with ties', async () => {
+      const orm = getOrm()
+      await createTestUsers(orm, [
+         { email: 'a@example.com', status: 'active' },
+         { email: 'b@example.com', status: 'inactive' },
+         { email: 'c@example.com', status: 'active' },
+         { email: 'd@example.com', status: 'inactive' },
+      ])
+
+      const page1 = await orm.paginate('users', { orderBy: ['-status', 'email'], first: 3 })
+      const page2 = await orm.paginate('users', { orderBy: ['-status', 'email'], first: 3, after: page1.pageInfo.endCursor })
+
+      expect(page1.items.map(user => user.email)).toEqual(['b@example.com', 'd@example.com', 'a@example.com'])
+      expect(page2.items.map(user => user.email)).toEqual(['c@example.com'])
+      expect(page2.pageInfo.hasNextPage).toBe(false)
+   })
+
+   it('should apply filters and return empty pages', async () => {
+      const orm = getOrm()
+      await createTestUsers(orm, [
+         { email: 'user1@example.com', status: 'active' },
+         { email: 'user2@example.com', status: 'inactive' },
+      ])
+
+      const active = await orm.paginate('users', { where: { status: { $eq: 'active' } }, first: 10 })
+      expect(active.items).toHaveLength(1)
+      expect(active.pageInfo.hasNextPage).toBe(false)
+
+      const none = await orm.paginate('users', { where: { status: { $eq: 'pending' } }, first: 10 })
+      expect(none).toEqual({ items: [], pageInfo: { hasNextPage: false, endCursor: null } })
+   })
+
+   it('should page through null values in ordering columns', async () => {
+      const orm = getOrm()
+      await createTestUsers(orm, [
+         { email: 'user1@example.com', status: 'inactive' },
+         { email: 'user2@example.com', status: null },
+         { email: 'user3@example.com', status: 'active' },
+         { email: 'user4@example.com', status: null },
+      ])
+
+      for (const orderBy of [['status'], ['-status']] as const) {
+         const emails: string[] = []
+         let after: string | null = null
+
+         do {
+            const page: PaginateResult<typeof schema, 'users'> = await orm.paginate('users', { orderBy: [...orderBy], first: 1, after })
+            emails.push(...page.items.map(user => user.email))
+            after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null
+         } while (after)
+
+         const expected = await orm.find('users', { orderBy: [...orderBy, 'id'] })
+         expect(emails).toEqual(expected.map(user => user.email))
+      }
+   })
+
+   it('should not duplicate items when filtering on has-many relations', async () => {
+      const orm = getOrm()
+      for (const email of ['user1@example.com', 'user2@example.com', 'user3@example.com']) {
+         await createTestUserWithRelations(orm, {
+            email,
+            posts: [{ title: 'Post 1', slug: `${email}-1` }, { title: 'Post 2', slug: `${email}-2` }],
+         })
+      }
+
+      const where = { posts: { title: { $startsWith: 'Post' } } }
+      const page1 = await orm.paginate('users', { where, first: 2 })
+      const page2 = await orm.paginate('users', { where, first: 2, after: page1.pageInfo.endCursor })
+
+      expect(page1.items.map(user => user.email)).toEqual(['user1@example.com', 'user2@example.com'])
+      expect(page1.pageInfo.hasNextPage).toBe(true)
+      expect(page2.items.map(user => user.email)).toEqual(['user3@example.com'])
+      expect(page2.pageInfo.hasNextPage).toBe(false)
+   })
+
+   it('should reject invalid cursors', async () => {
+      const orm = getOrm()
+      await expect(orm.paginate('users', { first: 1, after: 'not-a-cursor' })).rejects.toThrow(/Invalid pagination cursor/)
+   })
+})
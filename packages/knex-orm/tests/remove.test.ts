@@ -86,4 +86,20 @@ setupQueryTests('remove query tests (%s)', (getOrm) => {
       // Posts might still exist depending on cascade behavior
       // This test verifies the user is removed
    })
+   it('should remove records by composite primary key', async () => {
+      const orm = getOrm()
+      const post = await orm.createOne('posts', {
+         title: 'Post 1',
+         slug: 'post-1',
+         tags: [{ name: 'tech' }, { name: 'news' }],
+      })
+      const [tech] = await orm.find('tags', { where: { name: { $eq: 'tech' } } })
+
+      const count = await orm.remove('posts_tags', { tag: { $eq: tech!.id } })
+      expect(count).toBe(1)
+
+      const remaining = await orm.find('posts_tags', { where: { post: { $eq: post.id } } })
+      expect(remaining).toHaveLength(1)
+      expect(remaining[0]?.tag).not.toBe(tech!.id)
+   })
 })
@@ -5,6 +5,40 @@ describe('schema', () => {
    it('should normalize the whole schema correctly', () => {
       expect(schema).toMatchInlineSnapshot(`
         {
+          "articles": {
+            "comments": {
+              "foreignKey": "article",
+              "nullable": true,
+              "table": "comments",
+              "type": "has-many",
+            },
+            "created_at": {
+              "default": "{now}",
+              "nullable": false,
+              "type": "timestamp",
+            },
+            "deleted_at": {
+              "nullable": true,
+              "softDelete": true,
+              "type": "timestamp",
+            },
+            "id": {
+              "increments": true,
+              "nullable": false,
+              "primary": true,
+              "type": "integer",
+            },
+            "title": {
+              "nullable": false,
+              "type": "varchar",
+            },
+            "updated_at": {
+              "default": "{now}",
+              "nullable": false,
+              "onUpdate": "{now}",
+              "type": "timestamp",
+            },
+          },
           "collections": {
             "created_at": {
               "default": "{now}",
@@ -22,11 +56,81 @@ describe('schema', () => {
               "type": "varchar",
               "unique": true,
             },
+            "settings": {
+              "nullable": true,
+              "type": "json",
+            },
+            "updated_at": {
+              "default": "{now}",
+              "nullable": false,
+              "onUpdate": "{now}",
+              "type": "timestamp",
+            },
+          },
+          "comments": {
+            "article": {
+              "foreignKey": "id",
+              "nullable": true,
+              "onDelete": "CASCADE",
+              "onUpdate": "CASCADE",
+              "table": "articles",
+              "type": "belongs-to",
+            },
+            "body": {
+              "nullable": false,
+              "type": "varchar",
+            },
+            "created_at": {
+              "default": "{now}",
+              "nullable": false,
+              "type": "timestamp",
+            },
+            "deleted_at": {
+              "nullable": true,
+              "softDelete": true,
+              "type": "timestamp",
+            },
+            "id": {
+              "increments": true,
+              "nullable": false,
+              "primary": true,
+              "type": "integer",
+            },
+            "updated_at": {
+              "default": "{now}",
+              "nullable": false,
+              "onUpdate": "{now}",
+              "type": "timestamp",
+            },
+          },
+          "documents": {
+            "created_at": {
+              "default": "{now}",
+              "nullable": false,
+              "type": "timestamp",
+            },
+            "id": {
+              "increments": true,
+              "nullable": false,
+              "primary": true,
+              "type": "integer",
+            },
+            "title": {
+              "nullable": false,
+              "type": "varchar",
+            },
             "updated_at": {
               "default": "{now}",
               "nullable": false,
+              "onUpdate": "{now}",
               "type": "timestamp",
             },
+            "version": {
+              "default": 1,
+              "nullable": false,
+              "type": "integer",
+              "version": true,
+            },
           },
           "permissions": {
             "action": {
@@ -65,6 +169,7 @@ describe('schema', () => {
             "updated_at": {
               "default": "{now}",
               "nullable": false,
+              "onUpdate": "{now}",
               "type": "timestamp",
             },
           },
@@ -99,6 +204,7 @@ describe('schema', () => {
             "updated_at": {
               "default": "{now}",
               "nullable": false,
+              "onUpdate": "{now}",
               "type": "timestamp",
             },
           },
@@ -133,6 +239,7 @@ describe('schema', () => {
             "updated_at": {
               "default": "{now}",
               "nullable": false,
+              "onUpdate": "{now}",
               "type": "timestamp",
             },
           },
@@ -173,48 +280,40 @@ describe('schema', () => {
               "type": "many-to-many",
             },
             "title": {
+              "fullText": true,
               "nullable": false,
               "type": "varchar",
             },
             "updated_at": {
               "default": "{now}",
               "nullable": false,
+              "onUpdate": "{now}",
               "type": "timestamp",
             },
-          },
-          "posts_tags": {
-            "created_at": {
-              "default": "{now}",
-              "nullable": false,
-              "type": "timestamp",
-            },
-            "id": {
-              "increments": true,
-              "nullable": false,
-              "primary": true,
+            "views": {
+              "nullable": true,
               "type": "integer",
             },
+          },
+          "posts_tags": {
             "post": {
               "foreignKey": "id",
-              "nullable": true,
+              "nullable": false,
               "onDelete": "CASCADE",
               "onUpdate": "CASCADE",
+              "primary": true,
               "table": "posts",
               "type": "belongs-to",
             },
             "tag": {
               "foreignKey": "id",
-              "nullable": true,
+              "nullable": false,
               "onDelete": "CASCADE",
               "onUpdate": "CASCADE",
+              "primary": true,
               "table": "tags",
               "type": "belongs-to",
             },
-            "updated_at": {
-              "default": "{now}",
-              "nullable": false,
-              "type": "timestamp",
-            },
           },
           "profiles": {
             "created_at": {
@@ -235,6 +334,7 @@ describe('schema', () => {
             "updated_at": {
               "default": "{now}",
               "nullable": false,
+              "onUpdate": "{now}",
               "type": "timestamp",
             },
             "user": {
@@ -277,6 +377,7 @@ describe('schema', () => {
             "updated_at": {
               "default": "{now}",
               "nullable": false,
+              "onUpdate": "{now}",
               "type": "timestamp",
             },
           },
@@ -311,6 +412,7 @@ describe('schema', () => {
             "updated_at": {
               "default": "{now}",
               "nullable": false,
+              "onUpdate": "{now}",
               "type": "timestamp",
             },
           },
@@ -345,6 +447,7 @@ describe('schema', () => {
             "updated_at": {
               "default": "{now}",
               "nullable": false,
+              "onUpdate": "{now}",
               "type": "timestamp",
             },
           },
@@ -395,6 +498,7 @@ describe('schema', () => {
             "updated_at": {
               "default": "{now}",
               "nullable": false,
+              "onUpdate": "{now}",
               "type": "timestamp",
             },
           },
@@ -418,9 +522,14 @@ describe('schema', () => {
               "table": "roles",
               "type": "belongs-to",
             },
+            "scope": {
+              "nullable": true,
+              "type": "varchar",
+            },
             "updated_at": {
               "default": "{now}",
               "nullable": false,
+              "onUpdate": "{now}",
               "type": "timestamp",
             },
             "user": {
@@ -1,4 +1,4 @@
-import { defineSchema, withDefaults } from '../src'
+import { defineSchema, withDefaults, withSoftDelete, withVersion } from '../src'
 
 export const schema = defineSchema({
    users: withDefaults({
@@ -13,8 +13,9 @@ export const schema = defineSchema({
       user: { type: 'belongs-to', foreignKey: 'id', table: 'users' },
    }),
    posts: withDefaults({
-      title: { type: 'varchar', nullable: false },
+      title: { type: 'varchar', nullable: false, fullText: true },
       slug: { type: 'varchar', nullable: false, unique: true },
+      views: { type: 'integer' },
       author: { type: 'belongs-to', foreignKey: 'id', table: 'users' },
       tags: { type: 'many-to-many', table: 'tags', foreignKey: 'id', through: { table: 'posts_tags', sourceFk: 'post', tableFk: 'tag' } },
    }),
@@ -22,10 +23,6 @@ export const schema = defineSchema({
       name: { type: 'varchar', nullable: false, unique: true },
       posts: { type: 'many-to-many', table: 'posts', foreignKey: 'id', through: { table: 'posts_tags', sourceFk: 'tag', tableFk: 'post' } },
    }),
-   posts_tags: withDefaults({
-      post: { type: 'belongs-to', table: 'posts', foreignKey: 'id' },
-      tag: { type: 'belongs-to', table: 'tags', foreignKey: 'id' },
-   }),
    roles: withDefaults({
       name: { type: 'varchar', nullable: false, unique: true },
       policies: { type: 'many-to-many', table: 'policies', foreignKey: 'id', through: { table: 'roles_policies', sourceFk: 'role', tableFk: 'policy' } },
@@ -33,6 +30,7 @@ export const schema = defineSchema({
    users_roles: withDefaults({
       user: { type: 'belongs-to', table: 'users', foreignKey: 'id' },
       role: { type: 'belongs-to', table: 'roles', foreignKey: 'id' },
+      scope: { type: 'varchar' },
    }),
    policies: withDefaults({
       name: { type: 'varchar', nullable: false, unique: true },
@@ -44,12 +42,24 @@ export const schema = defineSchema({
    }),
    collections: withDefaults({
       name: { type: 'varchar', nullable: false, unique: true },
+      settings: { type: 'json' },
    }),
    permissions: withDefaults({
       name: { type: 'varchar', nullable: false, unique: true },
       action: { type: 'enum-array', options: ['read', 'write', 'delete'] },
       collection: { type: 'belongs-to', table: 'collections', foreignKey: 'id' },
    }),
+   articles: withSoftDelete(withDefaults({
+      title: { type: 'varchar', nullable: false },
+      comments: { type: 'has-many', table: 'comments', foreignKey: 'article' },
+   })),
+   comments: withSoftDelete(withDefaults({
+      body: { type: 'varchar', nullable: false },
+      article: { type: 'belongs-to', table: 'articles', foreignKey: 'id' },
+   })),
+   documents: withVersion(withDefaults({
+      title: { type: 'varchar', nullable: false },
+   })),
    policies_permissions: withDefaults({
       policy: { type: 'belongs-to', table: 'policies', foreignKey: 'id' },
       permission: { type: 'belongs-to', foreignKey: 'id', table: 'permissions' },
@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest'
+import { setupQueryTests } from './utils'
+
+setupQueryTests('soft delete tests (%s)', (getOrm) => {
+   describe('remove', () => {
+      it('should mark records as deleted instead of deleting them', async () => {
+         const orm = getOrm()
+         const [first, second] = await orm.create('articles', [{ title: 'Article 1' }, { title: 'Article 2' }])
+
+         expect(await orm.remove('articles', { id: { $eq: first!.id } })).toBe(1)
+
+         expect((await orm.find('articles')).map(article => article.id)).toEqual([second!.id])
+         expect(await orm.findOne('articles', first!.id)).toBeUndefined()
+
+         const [deleted] = await orm.find('articles', { where: { id: { $eq: first!.id } }, withDeleted: true })
+         expect(deleted?.deleted_at).not.toBeNull()
+      })
+
+      it('should not remove soft-deleted records again', async () => {
+         const orm = getOrm()
+         await orm.create('articles', [{ title: 'Article 1' }])
+
+         expect(await orm.remove('articles', {})).toBe(1)
+         expect(await orm.remove('articles', {})).toBe(0)
+      })
+
+      it('should permanently remove records with forceRemove', async () => {
+         const orm = getOrm()
+         const [first] = await orm.create('articles', [{ title: 'Article 1' }, { title: 'Article 2' }])
+         await orm.remove('articles', { id: { $eq: first!.id } })
+
+         expect(await orm.forceRemove('articles', {})).toBe(2)
+         expect(await orm.count('articles', {}, { withDeleted: true })).toBe(0)
+      })
+   })
+
+   describe('queries', () => {
+      it('should scope queries with withDeleted and onlyDeleted', async () => {
+         const orm = getOrm()
+         const [first] = await orm.create('articles', [{ title: 'Article 1' }, { title: 'Article 2' }])
+         await orm.remove('articles', { id: { $eq: first!.id } })
+
+         expect(await orm.count('articles')).toBe(1)
+         expect(await orm.count('articles', {}, { withDeleted: true })).toBe(2)
+         expect(await orm.count('articles', {}, { onlyDeleted: true })).toBe(1)
+         expect(await orm.exists('articles', { title: { $eq: 'Article 1' } })).toBe(false)
+
+         const deleted = await orm.find('articles', { onlyDeleted: true })
+         expect(deleted.map(article => article.title)).toEqual(['Article 1'])
+
+         const page = await orm.paginate('articles', { first: 10, withDeleted: true })
+         expect(page.items).toHaveLength(2)
+      })
+
+      it('should not update soft-deleted records', async () => {
+         const orm = getOrm()
+         const [first] = await orm.create('articles', [{ title: 'Article 1' }, { title: 'Article 2' }])
+         await orm.remove('articles', { id: { $eq: first!.id } })
+
+         expect(await orm.update('articles', {}, { title: 'Updated' })).toBe(1)
+
+         const [deleted] = await orm.find('articles', { onlyDeleted: true })
+         expect(deleted?.title).toBe('Article 1')
+      })
+
+      it.each(['join', 'select-in'] as const)('should exclude soft-deleted related records (%s)', async (strategy) => {
+         const orm = getOrm()
+         const article = await orm.createOne('articles', {
+            title: 'Article 1',
+            comments: [{ body: 'Kept' }, { body: 'Removed' }],
+         })
+         await orm.remove('comments', { body: { $eq: 'Removed' } })
+
+         const result = await orm.findOne('articles', article.id, { columns: ['title', 'comments.body'], strategy })
+         expect(result?.comments.map(comment => comment.body)).toEqual(['Kept'])
+
+         await orm.remove('articles', { id: { $eq: article.id } })
+         const [comment] = await orm.find('comments', { columns: ['body', 'article.title'], strategy })
+         expect(comment?.article).toBeUndefined()
+      })
+
+      it('should exclude soft-deleted related records from relation filters', async () => {
+         const orm = getOrm()
+         await orm.create('articles', [
+            { title: 'Article 1', comments: [{ body: 'Removed' }] },
+            { title: 'Article 2', comments: [{ body: 'Kept' }] },
+         ])
+         await orm.remove('comments', { body: { $eq: 'Removed' } })
+
+         // pg-mem doesn't resolve the outer columns of correlated subqueries
+         if (orm.knex.client.config.client !== 'pg') {
+            const withComments = await orm.find('articles', { where: { comments: { $some: {} } } })
+            expect(withComments.map(article => article.title)).toEqual(['Article 2'])
+         }
+
+         const counted = await orm.find('articles', { where: { comments: { $count: { $eq: 0 } } } })
+         expect(counted.map(article => article.title)).toEqual(['Article 1'])
+      })
+
+      it('should exclude soft-deleted related records from aggregate groups', async () => {
+         const orm = getOrm()
+         const [removed] = await orm.create('articles', [
+            { title: 'Article 1', comments: [{ body: 'Comment 1' }, { body: 'Comment 2' }] },
+            { title: 'Article 2', comments: [{ body: 'Comment 3' }] },
+         ])
+         await orm.remove('articles', { id: { $eq: removed!.id } })
+
+         const results = await orm.aggregate('comments', {
+            groupBy: ['article.title'],
+            aggregates: { total: { $count: '*' } },
+            orderBy: ['-total'],
+         })
+
+         expect(results).toEqual([
+            { article: null, total: 2 },
+            { article: { title: 'Article 2' }, total: 1 },
+         ])
+      })
+   })
+
+   describe('upsert', () => {
+      it('should reject soft-deleted records', async () => {
+         const orm = getOrm()
+         const article = await orm.createOne('articles', { title: 'Article 1' })
+         await orm.remove('articles', { id: { $eq: article.id } })
+
+         await expect(orm.upsert('articles', [{ id: article.id, title: 'Updated' }])).rejects.toThrow(/Cannot upsert the soft-deleted record/)
+         const [deleted] = await orm.find('articles', { onlyDeleted: true })
+         expect(deleted?.title).toBe('Article 1')
+      })
+   })
+
+   describe('restore', () => {
+      it('should restore soft-deleted records', async () => {
+         const orm = getOrm()
+         const [first] = await orm.create('articles', [{ title: 'Article 1' }, { title: 'Article 2' }])
+         await orm.remove('articles', {})
+
+         expect(await orm.restore('articles', { id: { $eq: first!.id } })).toBe(1)
+
+         const articles = await orm.find('articles')
+         expect(articles.map(article => article.title)).toEqual(['Article 1'])
+         expect(articles[0]?.deleted_at).toBeNull()
+      })
+
+      it('should run update hooks and refresh onUpdate columns', async () => {
+         const orm = getOrm()
+         const article = await orm.createOne('articles', { title: 'Article 1' })
+         await orm.update('articles', { id: { $eq: article.id } }, { updated_at: '2000-01-01 00:00:00' })
+         await orm.remove('articles', {})
+         const patches: unknown[] = []
+         orm.addHooks('articles', {
+            beforeUpdate: ({ patch }) => { patches.push(patch) },
+            afterUpdate: ({ records }) => { patches.push(...records.map(record => record.title)) },
+         })
+
+         await orm.restore('articles', {})
+
+         expect(patches).toEqual([{ deleted_at: null }, 'Article 1'])
+         const restored = await orm.findOne('articles', article.id)
+         expect(new Date(restored!.updated_at).getFullYear()).toBeGreaterThan(2000)
+      })
+
+      it('should reject collections without a soft deletion column', async () => {
+         const orm = getOrm()
+         expect(() => orm.restore('users', {})).toThrow(/no soft deletion column/)
+      })
+   })
+})
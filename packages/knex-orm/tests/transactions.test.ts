@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest'
+import { setupQueryTests } from './utils'
+
+const RETRYABLE_CODES: Record<string, string> = {
+   'pg': '40001',
+   'mysql2': 'ER_LOCK_DEADLOCK',
+   'sqlite3': 'SQLITE_BUSY',
+   'better-sqlite3': 'SQLITE_BUSY',
+}
+
+/**
+ * Create the error raised by the driver on a deadlock or serialization failure
+ */
+function createRetryableError(client: string) {
+   return Object.assign(new Error('could not serialize access'), { code: RETRYABLE_CODES[client] })
+}
+
+setupQueryTests('transaction tests (%s)', (getOrm) => {
+   describe('transaction', () => {
+      it('should run queries in the transaction and commit them', async () => {
+         const orm = getOrm()
+
+         const result = await orm.transaction(async (tx) => {
+            const user = await tx.createOne('users', { email: 'user1@example.com' })
+            await tx.updateOne('users', { id: user.id }, { status: 'active' })
+            expect(tx.knex.isTransaction).toBe(true)
+            return tx.find('users', { columns: ['email', 'status'] })
+         })
+
+         expect(result).toEqual([{ email: 'user1@example.com', status: 'active' }])
+         expect(await orm.count('users')).toBe(1)
+      })
+
+      it('should roll back when the work throws', async () => {
+         const orm = getOrm()
+
+         await expect(orm.transaction(async (tx) => {
+            await tx.create('users', [{ email: 'user1@example.com' }, { email: 'user2@example.com' }])
+            throw new Error('Aborted')
+         })).rejects.toThrow('Aborted')
+
+         // pg-mem doesn't roll transactions back
+         if (orm.knex.client.config.client !== 'pg') {
+            expect(await orm.count('users')).toBe(0)
+         }
+      })
+
+      it('should roll nested transactions back to their savepoint', async () => {
+         const orm = getOrm()
+         // pg-mem supports neither savepoints nor rollbacks
+         if (orm.knex.client.config.client === 'pg') return
+
+         await orm.transaction(async (tx) => {
+            await tx.createOne('users', { email: 'user1@example.com' })
+            await expect(tx.transaction(async (nested) => {
+               await nested.createOne('users', { email: 'user2@example.com' })
+               throw new Error('Aborted')
+            })).rejects.toThrow('Aborted')
+         })
+
+         const users = await orm.find('users', { columns: ['email'] })
+         expect(users).toEqual([{ email: 'user1@example.com' }])
+      })
+
+      it('should run the hooks of the instance', async () => {
+         const orm = getOrm()
+         const transactions: boolean[] = []
+         orm.addHooks('users', {
+            beforeCreate: ({ trx }) => { transactions.push(trx.isTransaction === true) },
+         })
+
+         await orm.transaction(tx => tx.createOne('users', { email: 'user1@example.com' }))
+         expect(transactions).toEqual([true])
+      })
+   })
+
+   describe('retry', () => {
+      it('should run the transaction again on retryable errors', async () => {
+         const orm = getOrm()
+         const client = String(orm.knex.client.config.client)
+         let attempts = 0
+
+         const user = await orm.transaction(async (tx) => {
+            attempts++
+            if (attempts < 3) throw createRetryableError(client)
+            return tx.createOne('users', { email: 'user1@example.com' })
+         }, { retry: { maxAttempts: 3, backoff: 0 } })
+
+         expect(attempts).toBe(3)
+         expect(user.email).toBe('user1@example.com')
+      })
+
+      it('should give up after the maximum number of attempts', async () => {
+         const orm = getOrm()
+         const client = String(orm.knex.client.config.client)
+         const backoffs: number[] = []
+         const backoff = (attempt: number) => {
+            backoffs.push(attempt)
+            return 0
+         }
+         let attempts = 0
+
+         await expect(orm.transaction(async () => {
+            attempts++
+            throw createRetryableError(client)
+         }, { retry: { maxAttempts: 2, backoff } })).rejects.toThrow('could not serialize access')
+
+         expect(attempts).toBe(2)
+         expect(backoffs).toEqual([1])
+      })
+
+      it('should not retry other errors', async () => {
+         const orm = getOrm()
+         let attempts = 0
+
+         await expect(orm.transaction(async () => {
+            attempts++
+            throw new Error('Aborted')
+         }, { retry: true })).rejects.toThrow('Aborted')
+
+         expect(attempts).toBe(1)
+      })
+
+      it('should retry mutations running in their own transaction', async () => {
+         const orm = getOrm()
+         const client = String(orm.knex.client.config.client)
+         let attempts = 0
+         orm.addHooks('users', {
+            beforeCreate: () => {
+               attempts++
+               if (attempts === 1) throw createRetryableError(client)
+            },
+         })
+
+         await orm.createOne('users', { email: 'user1@example.com' }, { retry: { backoff: 0 } })
+         expect(attempts).toBe(2)
+         expect(await orm.count('users')).toBe(1)
+      })
+
+      it('should reject invalid retry policies', async () => {
+         const orm = getOrm()
+         await expect(orm.transaction(async () => {}, { retry: { maxAttempts: 0 } })).rejects.toThrow(/Invalid retry attempts/)
+      })
+   })
+})
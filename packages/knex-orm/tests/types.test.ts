@@ -1,9 +1,11 @@
 import type { Instance } from '../src'
 import type { schema } from './schema'
 import type { FieldName } from '@/types/fields'
-import type { QueryResultItem } from '@/types/query'
-import type { TableItem } from '@/types/schema'
+import type { FilterQuery, QueryResultItem } from '@/types/query'
+import type { TableItem, TableItemInput, TableItemPatch } from '@/types/schema'
 import { describe, expectTypeOf, it } from 'vitest'
+import z from 'zod'
+import { defineSchema } from '../src'
 
 // eslint-disable-next-line unused-imports/no-unused-vars
 declare const { find }: Instance<typeof schema>
@@ -24,6 +26,78 @@ describe('type tests', () => {
       })
    })
 
+   describe('json columns', () => {
+      it('should infer the type of json columns with a schema', () => {
+         // eslint-disable-next-line unused-imports/no-unused-vars
+         const typedSchema = defineSchema({
+            collections: {
+               id: { type: 'integer', primary: true, increments: true },
+               settings: { type: 'json', schema: z.object({ theme: z.enum(['dark', 'light']), tags: z.array(z.string()).optional() }) },
+               metadata: { type: 'jsonb', nullable: false },
+            },
+         })
+
+         expectTypeOf<TableItem<typeof typedSchema, 'collections'>['settings']>().toEqualTypeOf<{ theme: 'dark' | 'light', tags?: string[] | undefined } | null>()
+         expectTypeOf<TableItem<typeof typedSchema, 'collections'>['metadata']>().toEqualTypeOf<unknown>()
+         expectTypeOf<{ $containsJson: { theme: 'dark' } }>().toExtend<NonNullable<FilterQuery<typeof typedSchema, 'collections'>['settings']>>()
+         expectTypeOf<{ $path: ['theme'], $eq: 'dark' }>().toExtend<NonNullable<FilterQuery<typeof typedSchema, 'collections'>['settings']>>()
+         expectTypeOf<{ $eq: { theme: 'dark' } }>().not.toExtend<NonNullable<FilterQuery<typeof typedSchema, 'collections'>['settings']>>()
+      })
+   })
+
+   describe('onUpdate values', () => {
+      it('should type onUpdate values against the column type', () => {
+         defineSchema({
+            posts: {
+               id: { type: 'integer', primary: true, increments: true },
+               edited: { type: 'boolean', onUpdate: true },
+               edited_at: { type: 'timestamp', onUpdate: '{now}' },
+               // @ts-expect-error the value must be a number
+               revision: { type: 'integer', onUpdate: 'latest' },
+            },
+         })
+      })
+   })
+
+   describe('relation operations', () => {
+      it('should type the operations per relation kind', () => {
+         expectTypeOf<{ tags: { $connect: [1, { name: 'tech' }], $disconnect: [2] } }>().toExtend<TableItemInput<typeof schema, 'posts'>>()
+         expectTypeOf<{ posts: { $delete: { where: { title: { $eq: 'Draft' } } } }, profile: { $delete: true } }>().toExtend<TableItemInput<typeof schema, 'users'>>()
+         expectTypeOf<{ profile: { $set: [1] } }>().not.toExtend<TableItemInput<typeof schema, 'users'>>()
+         expectTypeOf<{ tags: { $disconnect: [{ name: 'tech' }] } }>().not.toExtend<TableItemInput<typeof schema, 'posts'>>()
+      })
+   })
+
+   describe('junction columns', () => {
+      it('should type the $pivot fields of many-to-many relations', () => {
+         type Role = NonNullable<QueryResultItem<typeof schema, 'users', ['roles.name', 'roles.$pivot.scope']>>['roles'][number]
+         expectTypeOf<Role['name']>().toEqualTypeOf<string>()
+         expectTypeOf<Role['$pivot']>().toEqualTypeOf<{ scope: string | null }>()
+         expectTypeOf<{ roles: [{ name: 'admin', $pivot: { scope: 'billing' } }] }>().toExtend<TableItemInput<typeof schema, 'users'>>()
+      })
+   })
+
+   describe('update patch', () => {
+      it('should accept update operators on scalar columns', () => {
+         expectTypeOf<{ views: { $inc: 1 }, title: { $append: '!' } }>().toExtend<TableItemPatch<typeof schema, 'posts'>>()
+         expectTypeOf<{ views: { $append: '!' } }>().not.toExtend<TableItemPatch<typeof schema, 'posts'>>()
+         expectTypeOf<{ title: { $inc: 1 } }>().not.toExtend<TableItemPatch<typeof schema, 'posts'>>()
+      })
+
+      it('should type appended elements of json arrays', () => {
+         // eslint-disable-next-line unused-imports/no-unused-vars
+         const typedSchema = defineSchema({
+            pages: {
+               id: { type: 'integer', primary: true, increments: true },
+               tags: { type: 'json', schema: z.array(z.string()) },
+            },
+         })
+
+         expectTypeOf<{ tags: { $append: 'news' } }>().toExtend<TableItemPatch<typeof typedSchema, 'pages'>>()
+         expectTypeOf<{ tags: { $append: 1 } }>().not.toExtend<TableItemPatch<typeof typedSchema, 'pages'>>()
+      })
+   })
+
    describe('find method return types', () => {
       it('should have the right top-level columns', () => {
          expectTypeOf<FieldName<typeof schema, 'users', false>>().toEqualTypeOf<
@@ -40,6 +114,7 @@ describe('type tests', () => {
             | 'id'
             | 'title'
             | 'slug'
+            | 'views'
             | 'author'
             | 'created_at'
             | 'updated_at'
@@ -80,6 +155,7 @@ describe('type tests', () => {
             | 'posts.id'
             | 'posts.title'
             | 'posts.slug'
+            | 'posts.views'
             | 'posts.author'
             | 'posts.created_at'
             | 'posts.updated_at'
@@ -96,6 +172,10 @@ describe('type tests', () => {
             | 'roles.name'
             | 'roles.created_at'
             | 'roles.updated_at'
+            | 'roles.$pivot.id'
+            | 'roles.$pivot.scope'
+            | 'roles.$pivot.created_at'
+            | 'roles.$pivot.updated_at'
             | 'roles.policies.*'
             | 'roles.policies.*.*'
             | 'roles.policies.*.*.*'
@@ -103,6 +183,9 @@ describe('type tests', () => {
             | 'roles.policies.name'
             | 'roles.policies.created_at'
             | 'roles.policies.updated_at'
+            | 'roles.policies.$pivot.id'
+            | 'roles.policies.$pivot.created_at'
+            | 'roles.policies.$pivot.updated_at'
             | 'roles.policies.permissions.*'
             | 'roles.policies.permissions.*.*'
             | 'roles.policies.permissions.action'
@@ -110,12 +193,16 @@ describe('type tests', () => {
             | 'roles.policies.permissions.collection.*'
             | 'roles.policies.permissions.collection.id'
             | 'roles.policies.permissions.collection.name'
+            | 'roles.policies.permissions.collection.settings'
             | 'roles.policies.permissions.collection.created_at'
             | 'roles.policies.permissions.collection.updated_at'
             | 'roles.policies.permissions.id'
             | 'roles.policies.permissions.name'
             | 'roles.policies.permissions.created_at'
             | 'roles.policies.permissions.updated_at'
+            | 'roles.policies.permissions.$pivot.id'
+            | 'roles.policies.permissions.$pivot.created_at'
+            | 'roles.policies.permissions.$pivot.updated_at'
             | 'profile'
             | 'profile.*'
             | 'profile.id'
@@ -166,6 +253,7 @@ describe('type tests', () => {
                title: string
                author: number | null
                slug: string
+               views: number | null
                created_at: string | Date
                updated_at: string | Date
             }[]
@@ -232,6 +320,7 @@ describe('type tests', () => {
                id: number
                title: string
                slug: string
+               views: number | null
                author: number | null
                created_at: string | Date
                updated_at: string | Date
@@ -267,6 +356,7 @@ describe('type tests', () => {
                id: number
                title: string
                slug: string
+               views: number | null
                author: number | null
                tags: {
                   id: number
@@ -316,6 +406,7 @@ describe('type tests', () => {
                id: number
                title: string
                slug: string
+               views: number | null
                author: number | null
                tags: {
                   id: number
@@ -356,6 +447,7 @@ describe('type tests', () => {
                      collection: {
                         id: number
                         name: string
+                        settings: unknown
                         created_at: string | Date
                         updated_at: string | Date
                      } | null
@@ -370,6 +462,7 @@ describe('type tests', () => {
                id: number
                title: string
                slug: string
+               views: number | null
                author: number | null
                tags: {
                   id: number
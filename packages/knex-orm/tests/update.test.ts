@@ -1,4 +1,5 @@
 import { describe, expect, it } from 'vitest'
+import { OptimisticLockError } from '../src'
 import { createTestUsers, setupQueryTests } from './utils'
 
 setupQueryTests('update query tests (%s)', (getOrm) => {
@@ -45,6 +46,118 @@ setupQueryTests('update query tests (%s)', (getOrm) => {
       })
    })
 
+   describe('timestamps', () => {
+      const past = new Date('2020-01-01T00:00:00Z')
+
+      it('should refresh updated_at unless the patch sets it', async () => {
+         const orm = getOrm()
+         const user = await orm.createOne('users', { email: 'user1@example.com', status: 'active' })
+
+         const stale = await orm.updateOne('users', { id: user.id }, { status: 'pending', updated_at: past })
+         expect(new Date(stale!.updated_at).getTime()).toBe(past.getTime())
+
+         const updated = await orm.updateOne('users', { id: user.id }, { status: 'inactive' })
+         expect(new Date(updated!.updated_at).getTime()).toBeGreaterThan(past.getTime())
+      })
+
+      it('should refresh updated_at of nested child records', async () => {
+         const orm = getOrm()
+         const user = await orm.createOne('users', {
+            email: 'user1@example.com',
+            status: 'active',
+            posts: [{ title: 'Original Post', slug: 'original-post' }],
+         })
+         const post = await orm.findOne('posts', { where: { author: { $eq: user.id } } })
+         await orm.update('posts', { id: post!.id }, { updated_at: past })
+
+         await orm.update('users', { id: user.id }, { posts: [{ id: post!.id, title: 'Updated Post' }] })
+
+         const updated = await orm.findOne('posts', post!.id)
+         expect(new Date(updated!.updated_at).getTime()).toBeGreaterThan(past.getTime())
+      })
+   })
+
+   describe('optimistic locking', () => {
+      // pg-mem stores integer column defaults as text, so versions are set explicitly
+      it('should increment the version of updated records', async () => {
+         const orm = getOrm()
+         const document = await orm.createOne('documents', { title: 'Draft', version: 1 })
+
+         const updated = await orm.updateOne('documents', { id: document.id }, { title: 'Published' })
+         expect(updated?.version).toBe(2)
+      })
+
+      it('should only update records still at the version of the patch', async () => {
+         const orm = getOrm()
+         const document = await orm.createOne('documents', { title: 'Draft', version: 1 })
+
+         const updated = await orm.updateOne('documents', { id: document.id }, { title: 'First', version: document.version })
+         expect(updated?.version).toBe(2)
+
+         const stale = orm.updateOne('documents', { id: document.id }, { title: 'Second', version: document.version })
+         await expect(stale).rejects.toThrow(OptimisticLockError)
+         await expect(stale).rejects.toMatchObject({ tableName: 'documents', version: 1 })
+         expect((await orm.findOne('documents', document.id))?.title).toBe('First')
+      })
+   })
+
+   describe('update operators', () => {
+      it('should increment and decrement numeric columns', async () => {
+         const orm = getOrm()
+         await orm.create('posts', [
+            { title: 'Post 1', slug: 'post-1', views: 10 },
+            { title: 'Post 2', slug: 'post-2' },
+         ])
+
+         const count = await orm.update('posts', {}, { views: { $inc: 3 } })
+         expect(count).toBe(2)
+         await orm.update('posts', { slug: 'post-1' }, { views: { $dec: 5 } })
+
+         const posts = await orm.find('posts', { orderBy: ['slug'] })
+         expect(posts.map(post => post.views)).toEqual([8, 3])
+      })
+
+      it('should append to string columns', async () => {
+         const orm = getOrm()
+         const user = await orm.createOne('users', { email: 'user1@example.com', status: 'active' })
+
+         const updated = await orm.updateOne('users', { id: user.id }, { status: { $append: '-verified' }, email: 'user2@example.com' })
+         expect(updated?.status).toBe('active-verified')
+         expect(updated?.email).toBe('user2@example.com')
+      })
+
+      it('should reject operators on unsupported columns', async () => {
+         const orm = getOrm()
+         const post = await orm.createOne('posts', { title: 'Post 1', slug: 'post-1' })
+         await expect(orm.update('posts', { id: post.id }, { title: { $inc: 1 } } as never)).rejects.toThrow(/"\$inc" is not supported on column "title"/)
+      })
+
+      it('should append elements to json arrays', async () => {
+         const orm = getOrm()
+         // pg-mem doesn't support jsonb concatenation
+         if (orm.knex.client.config.client === 'pg') return
+         const [articles, pages] = await orm.create('collections', [
+            { name: 'articles', settings: ['news'] },
+            { name: 'pages', settings: null },
+         ])
+
+         await orm.update('collections', {}, { settings: { $append: { tag: 'sport' } } })
+         await orm.update('collections', { id: articles!.id }, { settings: { $append: 'weather' } })
+
+         expect((await orm.findOne('collections', articles!.id))?.settings).toEqual(['news', { tag: 'sport' }, 'weather'])
+         expect((await orm.findOne('collections', pages!.id))?.settings).toEqual([{ tag: 'sport' }])
+      })
+
+      it('should reject other operators on json columns instead of storing them', async () => {
+         const orm = getOrm()
+         const collection = await orm.createOne('collections', { name: 'articles', settings: { count: 1 } })
+
+         await expect(orm.update('collections', { id: collection.id }, { settings: { $inc: 1 } })).rejects.toThrow(/"\$inc" is not supported on column "settings" of type "json"/)
+         await orm.update('collections', { id: collection.id }, { settings: { $inc: 1, tags: [] } })
+         expect((await orm.findOne('collections', collection.id))?.settings).toEqual({ $inc: 1, tags: [] })
+      })
+   })
+
    describe('updating relations', () => {
       it('should update record with has-one relation', async () => {
          const orm = getOrm()
@@ -172,4 +285,89 @@ setupQueryTests('update query tests (%s)', (getOrm) => {
          expect(postTags.length).toBeGreaterThanOrEqual(2)
       })
    })
+
+   describe('relation operations', () => {
+      it('should connect and disconnect many-to-many records', async () => {
+         const orm = getOrm()
+         const tags = await orm.create('tags', [{ name: 'tech' }, { name: 'food' }, { name: 'travel' }])
+         const post = await orm.createOne('posts', { title: 'Post 1', slug: 'post-1', tags: { $connect: [tags[0]!.id, tags[2]!.id] } })
+
+         await orm.update('posts', { id: { $eq: post.id } }, {
+            tags: { $connect: [tags[0]!.id, tags[1]!.id, { name: 'code' }], $disconnect: [tags[2]!.id] },
+         })
+
+         const updated = await orm.findOne('posts', post.id, { columns: ['tags.name'], with: { tags: { orderBy: ['name'] } } })
+         expect(updated?.tags.map(tag => tag.name)).toEqual(['code', 'food', 'tech'])
+         expect(await orm.count('tags')).toBe(4)
+      })
+
+      it('should write junction columns of connected records', async () => {
+         const orm = getOrm()
+         const user = await orm.createOne('users', { email: 'user1@example.com', roles: [{ name: 'admin' }] })
+         const [admin] = await orm.find('roles')
+
+         await orm.update('users', { id: { $eq: user.id } }, {
+            roles: { $connect: [{ id: admin!.id, $pivot: { scope: 'billing' } }, { name: 'editor', $pivot: { scope: 'blog' } }] },
+         })
+
+         const userRoles = await orm.find('users_roles', { columns: ['role', 'scope'], orderBy: ['role'] })
+         expect(userRoles.map(userRole => userRole.scope)).toEqual(['billing', 'blog'])
+      })
+
+      it('should replace has-many records with $set', async () => {
+         const orm = getOrm()
+         const user = await orm.createOne('users', {
+            email: 'user1@example.com',
+            posts: [{ title: 'Post 1', slug: 'post-1' }, { title: 'Post 2', slug: 'post-2' }],
+         })
+         const [post1] = await orm.find('posts', { where: { slug: { $eq: 'post-1' } } })
+
+         await orm.update('users', { id: { $eq: user.id } }, {
+            posts: { $set: [post1!.id, { title: 'Post 3', slug: 'post-3' }] },
+         })
+
+         const posts = await orm.find('posts', { orderBy: ['slug'] })
+         expect(posts.map(post => [post.slug, post.author])).toEqual([
+            ['post-1', user.id],
+            ['post-2', null],
+            ['post-3', user.id],
+         ])
+      })
+
+      it('should delete related records', async () => {
+         const orm = getOrm()
+         const user = await orm.createOne('users', {
+            email: 'user1@example.com',
+            profile: { display_name: 'User 1' },
+            posts: [{ title: 'Draft 1', slug: 'draft-1' }, { title: 'Published', slug: 'published' }],
+            roles: [{ name: 'admin' }, { name: 'editor' }],
+         })
+         await orm.createOne('posts', { title: 'Draft 2', slug: 'draft-2' })
+         const [admin] = await orm.find('roles', { where: { name: { $eq: 'admin' } } })
+
+         await orm.update('users', { id: { $eq: user.id } }, {
+            posts: { $delete: { where: { title: { $startsWith: 'Draft' } } } },
+            roles: { $delete: [admin!.id] },
+            profile: { $delete: true },
+         })
+
+         const posts = await orm.find('posts', { orderBy: ['slug'] })
+         expect(posts.map(post => post.slug)).toEqual(['draft-2', 'published'])
+         expect((await orm.find('roles')).map(role => role.name)).toEqual(['editor'])
+         expect(await orm.count('users_roles')).toBe(1)
+         expect(await orm.count('profiles')).toBe(0)
+      })
+
+      it('should replace and detach has-one records', async () => {
+         const orm = getOrm()
+         const user = await orm.createOne('users', { email: 'user1@example.com', profile: { display_name: 'Old' } })
+
+         await orm.update('users', { id: { $eq: user.id } }, { profile: { $connect: { display_name: 'New' } } })
+         const profiles = await orm.find('profiles', { orderBy: ['display_name'] })
+         expect(profiles.map(profile => [profile.display_name, profile.user])).toEqual([['New', user.id], ['Old', null]])
+
+         await orm.update('users', { id: { $eq: user.id } }, { profile: { $disconnect: true } })
+         expect(await orm.count('profiles', { user: { $eq: user.id } })).toBe(0)
+      })
+   })
 })
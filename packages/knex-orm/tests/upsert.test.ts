@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest'
+import { setupQueryTests } from './utils'
+
+setupQueryTests('upsert query tests (%s)', (getOrm) => {
+   describe('conflict handling', () => {
+      it('should insert new records and update existing ones by primary key', async () => {
+         const orm = getOrm()
+         const [existing] = await orm.create('users', [{ email: 'user1@example.com', status: 'active' }])
+
+         const results = await orm.upsert('users', [
+            { id: existing!.id, email: 'user1@example.com', status: 'inactive' },
+            { id: 100, email: 'user2@example.com', status: 'active' },
+         ])
+
+         expect(results.map(user => [user.id, user.email, user.status])).toEqual([
+            [existing!.id, 'user1@example.com', 'inactive'],
+            [100, 'user2@example.com', 'active'],
+         ])
+         expect(await orm.count('users')).toBe(2)
+      })
+
+      it('should match existing records on unique columns', async () => {
+         const orm = getOrm()
+         const [existing] = await orm.create('users', [{ email: 'user1@example.com', status: 'active' }])
+
+         const results = await orm.upsert('users', [
+            { email: 'user2@example.com', status: 'pending' },
+            { email: 'user1@example.com', status: 'inactive' },
+         ], { conflict: ['email'] })
+
+         expect(results.map(user => user.email)).toEqual(['user2@example.com', 'user1@example.com'])
+         expect(results[1]?.id).toBe(existing!.id)
+         expect(results[1]?.status).toBe('inactive')
+         expect(await orm.count('users')).toBe(2)
+      })
+
+      it('should only update the merged columns', async () => {
+         const orm = getOrm()
+         await orm.create('posts', [{ title: 'Draft', slug: 'post' }])
+
+         const [post] = await orm.upsert('posts', [{ title: 'Published', slug: 'post', author: null }], { conflict: ['slug'], merge: ['title'] })
+         expect(post?.title).toBe('Published')
+
+         const [ignored] = await orm.upsert('posts', [{ title: 'Ignored', slug: 'post' }], { conflict: ['slug'], merge: false })
+         expect(ignored?.title).toBe('Published')
+         expect(await orm.count('posts')).toBe(1)
+      })
+   })
+
+   describe('updated records', () => {
+      const past = new Date('2020-01-01T00:00:00Z')
+
+      it('should refresh updated_at unless it is merged', async () => {
+         const orm = getOrm()
+         const user = await orm.createOne('users', { email: 'user1@example.com', status: 'active' })
+         await orm.update('users', { id: user.id }, { updated_at: past })
+
+         const [ignored] = await orm.upsert('users', [{ email: 'user1@example.com', status: 'pending' }], { conflict: ['email'], merge: false })
+         expect(new Date(ignored!.updated_at).getTime()).toBe(past.getTime())
+
+         const [stale] = await orm.upsert('users', [{ email: 'user1@example.com', status: 'pending', updated_at: past }], { conflict: ['email'] })
+         expect(new Date(stale!.updated_at).getTime()).toBe(past.getTime())
+
+         const [updated] = await orm.upsert('users', [{ email: 'user1@example.com', status: 'inactive' }], { conflict: ['email'] })
+         expect(new Date(updated!.updated_at).getTime()).toBeGreaterThan(past.getTime())
+      })
+
+      it('should increment the version of updated records', async () => {
+         const orm = getOrm()
+         // pg-mem stores integer column defaults as text, so versions are set explicitly
+         const document = await orm.createOne('documents', { title: 'Draft', version: 1 })
+
+         const [updated, inserted] = await orm.upsert('documents', [
+            { id: document.id, title: 'Published', version: 1 },
+            { id: 100, title: 'New', version: 1 },
+         ])
+
+         expect(updated).toMatchObject({ title: 'Published', version: 2 })
+         expect(inserted).toMatchObject({ title: 'New', version: 1 })
+      })
+   })
+
+   describe('validation', () => {
+      it('should require the conflict columns', async () => {
+         const orm = getOrm()
+         await expect(orm.upsert('users', [{ status: 'active' }], { conflict: ['email'] })).rejects.toThrow(/conflict column "email"/)
+      })
+
+      it('should reject nested relations', async () => {
+         const orm = getOrm()
+         await expect(orm.upsert('users', [{ email: 'user1@example.com', profile: { display_name: 'User' } }], { conflict: ['email'] }))
+            .rejects
+            .toThrow(/Nested relation "profile"/)
+      })
+   })
+})
@@ -1,7 +1,7 @@
 import type { MySQLDB } from 'mysql-memory-server/dist/types'
 import type { Instance } from '../src'
 import { createDB } from 'mysql-memory-server'
-import { newDb } from 'pg-mem'
+import { DataType, newDb } from 'pg-mem'
 import { afterAll, afterEach, beforeEach, describe, expect } from 'vitest'
 import { createInstance, createInstanceWithKnex } from '../src'
 import { schema } from './schema'
@@ -28,9 +28,43 @@ type TestDriver = (typeof drivers)[number]
 // ============================================================================
 let mysqlServer: MySQLDB | undefined
 
+function createPgMemKnex() {
+   const db = newDb({ autoCreateForeignKeyIndices: true })
+   // pg-mem doesn't implement the POSIX regular expression match operator
+   db.public.registerOperator({
+      operator: '~',
+      left: DataType.text,
+      right: DataType.text,
+      returns: DataType.bool,
+      implementation: (value: string, pattern: string) => new RegExp(pattern).test(value),
+   })
+   // nor text search, emulated with lowercased words and `&`-separated queries
+   db.public.registerFunction({
+      name: 'to_tsvector',
+      args: [DataType.text, DataType.text],
+      returns: DataType.text,
+      implementation: (_config: string, value: string) => ` ${value.toLowerCase().match(/[\p{L}\p{N}_]+/gu)?.join(' ') ?? ''} `,
+   })
+   db.public.registerFunction({
+      name: 'to_tsquery',
+      args: [DataType.text, DataType.text],
+      returns: DataType.text,
+      implementation: (_config: string, query: string) => query.toLowerCase(),
+   })
+   db.public.registerOperator({
+      operator: '@@',
+      left: DataType.text,
+      right: DataType.text,
+      returns: DataType.bool,
+      implementation: (vector: string, query: string) => query.split(' & ').every(term => vector.includes(` ${term} `)),
+   })
+   // knex creates text columns for json on unknown server versions, while Postgres returns parsed JSON
+   return db.adapters.createKnex(0, { jsonbSupport: true })
+}
+
 async function createInstanceForDriver(client: TestDriver) {
    if (client === 'pg') {
-      return createInstanceWithKnex(schema, newDb({ autoCreateForeignKeyIndices: true }).adapters.createKnex())
+      return createInstanceWithKnex(schema, createPgMemKnex())
    }
 
    if (client === 'mysql2') {
@@ -1,5 +1,6 @@
 import { beforeAll, describe, expect, it } from 'vitest'
-import { installDefaultExtensions, validateCollectionName, validatePayload, validateQueryParams } from '../src'
+import z from 'zod'
+import { defineOperator, defineSchema, installDefaultExtensions, validateCollectionName, validatePayload, validateQueryParams, withDefaults } from '../src'
 import { schema } from './schema'
 
 describe('validation utils', () => {
@@ -34,6 +35,80 @@ describe('validation utils', () => {
          expect(params.orderBy).toEqual(['-email'])
       })
 
+      it('validates per-relation options', () => {
+         const params = validateQueryParams(schema, 'users', {
+            columns: ['email', 'posts.title'],
+            with: {
+               posts: {
+                  where: { title: { $eq: 'Post 1' } },
+                  orderBy: ['-created_at'],
+                  limit: 5,
+               },
+            },
+         })
+
+         expect(params.with?.posts?.limit).toBe(5)
+         expect(() => validateQueryParams(schema, 'users', { with: { unknown: {} } })).toThrow()
+         expect(() => validateQueryParams(schema, 'users', { with: { posts: { where: { unknown: 1 } } } })).toThrow()
+      })
+
+      it('rejects per-relation options for relations that are not selected', () => {
+         expect(() => validateQueryParams(schema, 'users', { columns: ['email'], with: { posts: { limit: 1 } } }))
+            .toThrow(/"posts\\": the relation is not selected in columns/)
+         expect(() => validateQueryParams(schema, 'users', { columns: ['posts.title'], with: { posts: { with: { tags: { limit: 1 } } } } }))
+            .toThrow(/"posts.tags\\": the relation is not selected/)
+      })
+
+      it('validates orderBy relation paths', () => {
+         expect(validateQueryParams(schema, 'posts', { orderBy: ['-author.email', 'author.profile.display_name'] }).orderBy)
+            .toEqual(['-author.email', 'author.profile.display_name'])
+         expect(() => validateQueryParams(schema, 'users', { orderBy: ['posts.title'] })).toThrow(/Unknown orderBy/)
+      })
+
+      it('validates relation quantifier filters', () => {
+         const where = {
+            posts: { $some: { title: { $eq: 'Post 1' } }, $count: { $gte: 2 } },
+            roles: { $none: { name: { $eq: 'admin' } } },
+         }
+         expect(validateQueryParams(schema, 'users', { where }).where).toEqual(where)
+         expect(() => validateQueryParams(schema, 'users', { where: { posts: { $some: { unknown: 1 } } } })).toThrow()
+         expect(() => validateQueryParams(schema, 'users', { where: { posts: { $count: { $gte: 'many' } } } })).toThrow()
+         expect(() => validateQueryParams(schema, 'users', { where: { profile: { $some: {} } } })).toThrow()
+      })
+
+      it('validates case-insensitive and regex string operators', () => {
+         const where = { email: { $icontains: 'EXAMPLE', $regex: '^[a-z]+@' } }
+         expect(validateQueryParams(schema, 'users', { where }).where).toEqual(where)
+         expect(() => validateQueryParams(schema, 'users', { where: { email: { $regex: '[unclosed' } } })).toThrow(/Invalid regular expression/)
+         expect(() => validateQueryParams(schema, 'users', { where: { id: { $ilike: '1%' } } })).toThrow()
+      })
+
+      it('validates full-text search on indexed columns only', () => {
+         expect(validateQueryParams(schema, 'posts', { where: { title: { $search: 'knex' } } }).where).toEqual({ title: { $search: 'knex' } })
+         expect(() => validateQueryParams(schema, 'posts', { where: { slug: { $search: 'knex' } } })).toThrow()
+      })
+
+      it('validates json filters', () => {
+         const where = { settings: { $path: ['theme', 0], $eq: 'dark', $hasKey: ['theme', 'color'], $containsJson: { public: true } } }
+         expect(validateQueryParams(schema, 'collections', { where }).where).toEqual(where)
+         expect(() => validateQueryParams(schema, 'collections', { where: { settings: { $path: [], $eq: 'dark' } } })).toThrow()
+         expect(() => validateQueryParams(schema, 'collections', { where: { name: { $path: ['theme'], $eq: 'dark' } } })).toThrow()
+         expect(() => validateQueryParams(schema, 'collections', { where: { name: { $hasKey: 'theme' } } })).toThrow()
+      })
+
+      it('validates custom operators', () => {
+         defineOperator('$ieq', {
+            apply: (builder, column, value: string) => builder.whereRaw('lower(??) = ?', [column, value.toLowerCase()]),
+            validate: ({ z }) => z.string().min(1),
+            dataTypes: ['varchar'],
+         })
+
+         expect(validateQueryParams(schema, 'users', { where: { email: { $ieq: 'A@B.C' } } }).where).toEqual({ email: { $ieq: 'A@B.C' } })
+         expect(() => validateQueryParams(schema, 'users', { where: { email: { $ieq: '' } } })).toThrow()
+         expect(() => validateQueryParams(schema, 'users', { where: { id: { $ieq: '1' } } })).toThrow()
+         expect(() => defineOperator('$eq', { apply: builder => builder })).toThrow(/built in/)
+      })
+
       it('rejects invalid column selections', () => {
          expect(() => validateQueryParams(schema, 'users', {
             columns: ['id', 'unknown'],
@@ -77,8 +152,68 @@ describe('validation utils', () => {
          })).toThrow()
       })
 
+      it('validates update operators', () => {
+         const validatePatch = (tableName: 'posts' | 'collections', patch: unknown) => validatePayload(schema, tableName, patch, { update: true })
+
+         expect(() => validatePatch('posts', { views: { $inc: 1 }, title: { $append: '!' } })).not.toThrow()
+         expect(() => validatePatch('posts', { views: { $inc: '1' } })).toThrow()
+         expect(() => validatePatch('posts', { views: { $append: '1' } })).toThrow()
+         expect(() => validatePatch('collections', { settings: { $append: { tag: 'news' } } })).not.toThrow()
+         expect(() => validatePatch('collections', { settings: { $inc: 1 } })).toThrow(/Update operator is not supported on column \\"settings\\"/)
+         expect(() => validatePatch('collections', { settings: { $inc: 1, tags: [] } })).not.toThrow()
+      })
+
+      it('rejects update operators in create payloads', () => {
+         expect(() => validatePayload(schema, 'posts', { views: { $inc: 1 } })).toThrow()
+         expect(() => validatePayload(schema, 'posts', { title: 'Post 1', slug: 'post-1', views: { $inc: 1 } }, { partial: false })).toThrow()
+      })
+
+      it('validates relation operations', () => {
+         expect(() => validatePayload(schema, 'posts', { tags: { $connect: [1, { name: 'tech' }], $disconnect: [2] } })).not.toThrow()
+         expect(() => validatePayload(schema, 'users', { posts: { $delete: { where: { title: { $startsWith: 'Draft' } } } }, profile: { $delete: true } })).not.toThrow()
+         expect(() => validatePayload(schema, 'posts', { tags: { $disconnect: [{ name: 'tech' }] } })).toThrow()
+         expect(() => validatePayload(schema, 'users', { profile: { $set: [1] } })).toThrow()
+         expect(() => validatePayload(schema, 'users', { posts: { $delete: { where: { unknown: { $eq: 1 } } } } })).toThrow()
+      })
+
+      it('validates junction columns', () => {
+         expect(() => validatePayload(schema, 'users', { roles: [{ name: 'admin', $pivot: { scope: 'billing' } }] })).not.toThrow()
+         expect(() => validatePayload(schema, 'users', { roles: [{ name: 'admin', $pivot: { scope: 1 } }] })).toThrow()
+         expect(() => validatePayload(schema, 'users', { roles: [{ name: 'admin', $pivot: { user: 1 } }] })).toThrow()
+         expect(() => validatePayload(schema, 'users', { posts: [{ title: 'Post', $pivot: { scope: 'billing' } }] })).toThrow()
+         expect(() => validateQueryParams(schema, 'users', { columns: ['roles.$pivot.scope'] })).not.toThrow()
+      })
+
       it('enforces required columns in strict mode', () => {
          expect(() => validatePayload(schema, 'users', { status: 'active' }, { partial: false })).toThrow()
       })
+
+      it('validates json columns with their schema', () => {
+         const typedSchema = defineSchema({
+            pages: withDefaults({
+               settings: { type: 'json', schema: z.object({ theme: z.enum(['dark', 'light']), pageSize: z.number().int() }) },
+            }),
+         })
+
+         expect(() => validatePayload(typedSchema, 'pages', { settings: { theme: 'dark', pageSize: 20 } })).not.toThrow()
+         expect(() => validatePayload(typedSchema, 'pages', { settings: { theme: 'blue', pageSize: 20 } })).toThrow()
+         expect(() => validatePayload(typedSchema, 'pages', { settings: 'dark' })).toThrow()
+         expect(() => validatePayload(typedSchema, 'pages', { settings: null })).not.toThrow()
+         expect(validateQueryParams(typedSchema, 'pages', { where: { settings: { $path: ['theme'], $eq: 'dark' } } }).where)
+            .toEqual({ settings: { $path: ['theme'], $eq: 'dark' } })
+      })
+
+      it('only accepts path, key and containment filters on json columns', () => {
+         const validateWhere = (where: unknown) => validateQueryParams(schema, 'collections', { where })
+
+         expect(() => validateWhere({ settings: { $hasKey: ['theme', 'color'] } })).not.toThrow()
+         expect(() => validateWhere({ settings: { $containsJson: { theme: 'dark' } } })).not.toThrow()
+         expect(() => validateWhere({ settings: { $null: true } })).not.toThrow()
+         expect(() => validateWhere({ settings: null })).not.toThrow()
+         expect(() => validateWhere({ settings: { $eq: 'dark' } })).toThrow()
+         expect(() => validateWhere({ settings: { $in: ['dark'] } })).toThrow()
+         expect(() => validateWhere({ settings: 'dark' })).toThrow()
+         expect(() => validateWhere({ settings: ['dark'] })).toThrow()
+      })
    })
 })